@@ -2,6 +2,7 @@ import { DataSource } from 'loopback-datasource-juggler'
 import DoneCallback = jest.DoneCallback
 
 const GCPDataSource = require('./datasource').RealtimeDatabase
+const generateIndexYaml = require('./datasource').generateIndexYaml
 
 function getDatasource() {
   try {
@@ -26,6 +27,76 @@ const Customer: any = datasource.createModel('customer', {
   age: Number,
 })
 
+const Order: any = datasource.createModel('order', {
+  reference: String,
+})
+
+const LineItem: any = datasource.createModel(
+  'lineItem',
+  {
+    orderId: String,
+    product: String,
+  },
+  { googleCloudDatastore: { parent: { model: 'order', property: 'orderId' } } },
+)
+
+LineItem.belongsTo(Order, { as: 'order', foreignKey: 'orderId' })
+Order.hasMany(LineItem, { as: 'lineItems', foreignKey: 'orderId' })
+
+const Product: any = datasource.createModel(
+  'product',
+  {
+    id: { type: String, id: true },
+    name: String,
+    price: Number,
+  },
+  { googleCloudDatastore: { keyNames: true } },
+)
+
+const Coupon: any = datasource.createModel('coupon', {
+  id: { type: String, id: true },
+  code: String,
+})
+
+const Article: any = datasource.createModel('article', {
+  title: String,
+  body: { type: String, googleCloudDatastore: { index: false } },
+  metadata: { type: Object, googleCloudDatastore: { index: false } },
+  attachments: { type: [Object], googleCloudDatastore: { index: false } },
+})
+
+const Shipment: any = datasource.createModel(
+  'shipment',
+  {
+    trackingNumber: { type: String, googleCloudDatastore: { columnName: 'tracking_number' } },
+  },
+  { googleCloudDatastore: { kind: 'shipment_record' } },
+)
+
+const Ticket: any = datasource.createModel(
+  'ticket',
+  {
+    title: String,
+    version: Number,
+  },
+  { googleCloudDatastore: { versionProperty: 'version' } },
+)
+
+const Note: any = datasource.createModel(
+  'note',
+  {
+    text: String,
+    deletedAt: Date,
+  },
+  { googleCloudDatastore: { softDelete: true } },
+)
+
+const Event: any = datasource.createModel('event', {
+  title: String,
+  startsAt: Date,
+  location: 'GeoPoint',
+})
+
 describe('Test Google Cloud Datastore Connector', () => {
   const customerName = 'Clement Oh'
 
@@ -168,6 +239,108 @@ describe('Test Google Cloud Datastore Connector', () => {
     })
   })
 
+  it('Should find entities with an inq condition', (done: DoneCallback) => {
+    Customer.find({ where: { age: { inq: [2, 27, 99] } } }, (error, customers) => {
+      expect(customers.length).toEqual(2)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should find entities matching either side of an or condition', (done: DoneCallback) => {
+    Customer.find(
+      { where: { or: [{ age: 2 }, { age: { between: [20, 30] } }] }, order: 'age DESC' },
+      (error, customers) => {
+        expect(customers.length).toEqual(2)
+        expect(customers[0].id).toEqual(customer2.id)
+        error ? done(error) : done()
+      },
+    )
+  })
+
+  it('Should page through the entities of an inq condition', (done: DoneCallback) => {
+    Customer.find(
+      { where: { age: { inq: [2, 27, 99] } }, order: 'age DESC', skip: 1, limit: 1 },
+      (error, customers) => {
+        expect(customers.length).toEqual(1)
+        expect(customers[0].id).toEqual(customer1.id)
+        error ? done(error) : done()
+      },
+    )
+  })
+
+  it('Should order the entities of an inq condition by id', (done: DoneCallback) => {
+    Customer.find(
+      { where: { age: { inq: [2, 27] } }, order: 'id DESC', limit: 1 },
+      (error, customers) => {
+        const [lastId] = [customer1.id, customer2.id].sort((a, b) =>
+          BigInt(a) < BigInt(b) ? 1 : -1,
+        )
+        expect(customers.length).toEqual(1)
+        expect(customers[0].id).toEqual(lastId)
+        error ? done(error) : done()
+      },
+    )
+  })
+
+  it('Should find entities with a neq condition', (done: DoneCallback) => {
+    Customer.find({ where: { age: { neq: customer1.age } } }, (error, customers) => {
+      expect(customers.length).toEqual(1)
+      expect(customers[0].id).toEqual(customer2.id)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should find entities with a prefix like condition', (done: DoneCallback) => {
+    Customer.find({ where: { name: { like: 'Clem%' } } }, (error, customers) => {
+      expect(customers.length).toEqual(2)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should fail with an unsupported operator', (done: DoneCallback) => {
+    Customer.find({ where: { name: { regexp: '^Clem' } } }, (error) => {
+      expect(error.statusCode).toEqual(400)
+      expect(error.code).toEqual('UNSUPPORTED_OPERATOR')
+      done()
+    })
+  })
+
+  it('Should read the next page from the end cursor', (done: DoneCallback) => {
+    const firstPageOptions = { queryInfo: {} as any }
+    Customer.find({ order: 'age ASC', limit: 1 }, firstPageOptions, (error, firstPage) => {
+      if (error) return done(error)
+      expect(firstPage[0].id).toEqual(customer1.id)
+      expect(firstPageOptions.queryInfo.endCursor).toBeTruthy()
+
+      const startCursor = firstPageOptions.queryInfo.endCursor
+      Customer.find({ order: 'age ASC', limit: 1 }, { startCursor }, (error, secondPage) => {
+        expect(secondPage.length).toEqual(1)
+        expect(secondPage[0].id).toEqual(customer2.id)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should stream entities matching a filter', (done: DoneCallback) => {
+    const customers = []
+    datasource.connector
+      .stream('customer', { where: { type: 'Animal' } })
+      .on('data', (customer) => customers.push(customer))
+      .on('error', done)
+      .on('end', () => {
+        expect(customers.length).toEqual(2)
+        expect(customers.map((customer) => customer.id)).toContain(customer1.id)
+        done()
+      })
+  })
+
+  it('Should count entities matching a where filter', (done: DoneCallback) => {
+    Customer.count({ age: customer1.age }, (error, count) => {
+      expect(count).toEqual(1)
+      error ? done(error) : done()
+    })
+  })
+
   it('Should replace values for models with same property value', (done: DoneCallback) => {
     const newEmails = ['animal@example.com']
     Customer.update({ where: { type: 'Animal' } }, { emails: newEmails }, (error, updateResult) => {
@@ -194,3 +367,968 @@ describe('Test Google Cloud Datastore Connector', () => {
     })
   })
 })
+
+describe('Test Google Cloud Datastore Connector transactions', () => {
+  afterAll((done: DoneCallback) => {
+    Customer.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should persist an entity created in a committed transaction', (done: DoneCallback) => {
+    Customer.beginTransaction({}, (error, transaction) => {
+      if (error) return done(error)
+
+      Customer.create(
+        { name: 'Committed', type: 'Transaction' },
+        { transaction },
+        (error, customer) => {
+          if (error) return done(error)
+
+          transaction.commit((error) => {
+            if (error) return done(error)
+
+            Customer.findById(customer.id, (error, savedCustomer) => {
+              expect(savedCustomer.name).toEqual('Committed')
+              error ? done(error) : done()
+            })
+          })
+        },
+      )
+    })
+  })
+
+  it('Should discard an entity created in a rolled back transaction', (done: DoneCallback) => {
+    Customer.beginTransaction({}, (error, transaction) => {
+      if (error) return done(error)
+
+      Customer.create(
+        { name: 'Rolled back', type: 'Transaction' },
+        { transaction },
+        (error, customer) => {
+          if (error) return done(error)
+
+          transaction.rollback((error) => {
+            if (error) return done(error)
+
+            Customer.findById(customer.id, (error, savedCustomer) => {
+              expect(savedCustomer).toBeNull()
+              error ? done(error) : done()
+            })
+          })
+        },
+      )
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector namespaces', () => {
+  const options = { namespace: 'tenant-a' }
+
+  let tenantCustomer = undefined
+
+  beforeAll((done: DoneCallback) => {
+    Customer.create({ name: 'Tenant', type: 'Namespace' }, options, (error, customer) => {
+      tenantCustomer = customer
+      error ? done(error) : done()
+    })
+  })
+
+  afterAll((done: DoneCallback) => {
+    Customer.destroyAll({}, options, (error) => (error ? done(error) : done()))
+  })
+
+  it('Should find an entity in its namespace', (done: DoneCallback) => {
+    Customer.find({ where: { id: tenantCustomer.id } }, options, (error, customers) => {
+      expect(customers.length).toEqual(1)
+      expect(customers[0].name).toEqual('Tenant')
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should not find an entity outside of its namespace', (done: DoneCallback) => {
+    Customer.find({ where: { id: tenantCustomer.id } }, (error, customers) => {
+      expect(customers.length).toEqual(0)
+      error ? done(error) : done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector ancestors', () => {
+  let order = undefined
+  let lineItem = undefined
+  let otherLineItem = undefined
+
+  beforeAll((done: DoneCallback) => {
+    Order.create({ reference: 'ORD-1' }, (error, createdOrder) => {
+      if (error) return done(error)
+      order = createdOrder
+
+      LineItem.create({ orderId: order.id, product: 'Apple' }, (error, createdLineItem) => {
+        if (error) return done(error)
+        lineItem = createdLineItem
+
+        LineItem.create({ orderId: order.id, product: 'Pear' }, (error, createdLineItem) => {
+          otherLineItem = createdLineItem
+          error ? done(error) : done()
+        })
+      })
+    })
+  })
+
+  afterAll((done: DoneCallback) => {
+    LineItem.destroyAll((error) => {
+      if (error) return done(error)
+      Order.destroyAll((error) => (error ? done(error) : done()))
+    })
+  })
+
+  it('Should find the children of an entity with an ancestor query', (done: DoneCallback) => {
+    LineItem.find({ where: { ancestor: { model: 'order', id: order.id } } }, (error, items) => {
+      expect(items.length).toEqual(2)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should find a child entity by id and parent id', (done: DoneCallback) => {
+    LineItem.find({ where: { id: lineItem.id, orderId: order.id } }, (error, items) => {
+      expect(items.length).toEqual(1)
+      expect(items[0].product).toEqual('Apple')
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should find a child entity by id alone', (done: DoneCallback) => {
+    LineItem.findById(lineItem.id, (error, item) => {
+      expect(item.product).toEqual('Apple')
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should include the parent of each child', (done: DoneCallback) => {
+    LineItem.find({ include: 'order' }, (error, items) => {
+      expect(items.map((item) => item.toJSON().order.reference)).toEqual(['ORD-1', 'ORD-1'])
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should include the children of each parent', (done: DoneCallback) => {
+    Order.find({ include: 'lineItems' }, (error, orders) => {
+      expect(orders[0].toJSON().lineItems.length).toEqual(2)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should find children by a list of ids alone', (done: DoneCallback) => {
+    const ids = [lineItem.id, otherLineItem.id]
+    LineItem.find({ where: { id: { inq: ids } }, order: 'product' }, (error, items) => {
+      expect(items.map((item) => item.product)).toEqual(['Apple', 'Pear'])
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should find children by a list of ids in an or condition', (done: DoneCallback) => {
+    LineItem.find(
+      { where: { or: [{ id: { inq: [lineItem.id] } }, { product: 'Pear' }] } },
+      (error, items) => {
+        expect(items.length).toEqual(2)
+        error ? done(error) : done()
+      },
+    )
+  })
+
+  it('Should fail to compare child ids without the parent id', (done: DoneCallback) => {
+    LineItem.find({ where: { id: { neq: lineItem.id } } }, (error) => {
+      expect(error.statusCode).toEqual(400)
+      expect(error.code).toEqual('MISSING_PARENT_ID')
+      done()
+    })
+  })
+
+  it('Should fail to find a child by an id shared by several parents', (done: DoneCallback) => {
+    Order.create({ reference: 'ORD-2' }, (error, otherOrder) => {
+      if (error) return done(error)
+
+      LineItem.create({ id: lineItem.id, orderId: otherOrder.id, product: 'Plum' }, (error) => {
+        if (error) return done(error)
+
+        LineItem.findById(lineItem.id, (error) => {
+          expect(error.statusCode).toEqual(400)
+          expect(error.code).toEqual('AMBIGUOUS_ID')
+          done()
+        })
+      })
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector key names', () => {
+  afterAll((done: DoneCallback) => {
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should create an entity with a client supplied id', (done: DoneCallback) => {
+    Product.create({ id: 'red-apple', name: 'Red apple' }, (error, product) => {
+      expect(product.id).toEqual('red-apple')
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should find an entity by its key name', (done: DoneCallback) => {
+    Product.findById('red-apple', (error, product) => {
+      expect(product.id).toEqual('red-apple')
+      expect(product.name).toEqual('Red apple')
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should not overwrite an entity with the same id', (done: DoneCallback) => {
+    Product.create({ id: 'red-apple', name: 'Green apple' }, (error) => {
+      expect(error).toBeTruthy()
+      done()
+    })
+  })
+
+  it('Should fail to create an entity with a key name without an id', (done: DoneCallback) => {
+    Product.create({ name: 'Pear' }, (error) => {
+      expect(error.statusCode).toEqual(400)
+      expect(error.code).toEqual('MISSING_ID')
+      done()
+    })
+  })
+
+  it('Should keep numeric ids for string ids without key names', (done: DoneCallback) => {
+    Coupon.create({ code: 'WELCOME' }, (error, coupon) => {
+      if (error) return done(error)
+      expect(coupon.id).toMatch(/^\d+$/)
+
+      Coupon.findById(coupon.id, (error, found) => {
+        expect(found.code).toEqual('WELCOME')
+        Coupon.destroyAll(() => (error ? done(error) : done()))
+      })
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector batches', () => {
+  const options = { batchSize: 2 }
+
+  let orderIds = undefined
+
+  it('Should create entities in batches and return their ids in order', (done: DoneCallback) => {
+    const orders = [
+      { reference: 'ORD-1' },
+      { reference: 'ORD-2' },
+      { reference: 'ORD-3' },
+      { id: 42, reference: 'ORD-4' },
+    ]
+    datasource.connector.createAll('order', orders, options, (error, ids) => {
+      orderIds = ids
+      expect(ids.length).toEqual(4)
+      if (error) return done(error)
+      // the ids create would return, allocated ids fit in safe integers
+      expect(ids.slice(0, 3).every((id) => typeof id === 'number')).toEqual(true)
+      expect(ids[3]).toEqual(42)
+
+      Order.findById(ids[2], (error, order) => {
+        expect(order.reference).toEqual('ORD-3')
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should count the entities of batches written concurrently', (done: DoneCallback) => {
+    const concurrentOptions = { batchSize: 2, batchConcurrency: 2 }
+    Order.updateAll({}, { reference: 'ORD' }, concurrentOptions, (error, updateResult) => {
+      expect(updateResult.count).toEqual(orderIds.length)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should delete entities in batches', (done: DoneCallback) => {
+    Order.destroyAll({}, options, (error, deleteResult) => {
+      expect(deleteResult.count).toEqual(orderIds.length)
+      error ? done(error) : done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector upserts', () => {
+  afterAll((done: DoneCallback) => {
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should create an entity that does not exist yet', (done: DoneCallback) => {
+    Product.updateOrCreate({ id: 'pear', name: 'Pear', price: 2 }, (error, product) => {
+      expect(product.name).toEqual('Pear')
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should keep existing properties when updating an entity', (done: DoneCallback) => {
+    Product.updateOrCreate({ id: 'pear', price: 3 }, (error) => {
+      if (error) return done(error)
+
+      Product.findById('pear', (error, product) => {
+        expect(product.name).toEqual('Pear')
+        expect(product.price).toEqual(3)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should remove missing properties when replacing an entity', (done: DoneCallback) => {
+    Product.replaceOrCreate({ id: 'pear', price: 4 }, (error) => {
+      if (error) return done(error)
+
+      Product.findById('pear', (error, product) => {
+        expect(product.name).toBeUndefined()
+        expect(product.price).toEqual(4)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should only create an entity once with findOrCreate', (done: DoneCallback) => {
+    const filter = { where: { id: 'kiwi' } }
+    Product.findOrCreate(filter, { id: 'kiwi', name: 'Kiwi' }, (error, _product, created) => {
+      if (error) return done(error)
+      expect(created).toEqual(true)
+
+      Product.findOrCreate(filter, { id: 'kiwi', name: 'Other' }, (error, product, created) => {
+        expect(created).toEqual(false)
+        expect(product.name).toEqual('Kiwi')
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should only create an entity once with concurrent findOrCreate calls', (done: DoneCallback) => {
+    const filter = { where: { reference: 'ORD-ONCE' } }
+    const findOrCreate = () =>
+      new Promise((resolve, reject) =>
+        Order.findOrCreate(filter, { reference: 'ORD-ONCE' }, (error, _order, created) =>
+          error ? reject(error) : resolve(created),
+        ),
+      )
+
+    Promise.all([findOrCreate(), findOrCreate()])
+      .then((created) => {
+        expect(created.filter((isCreated) => isCreated).length).toEqual(1)
+
+        Order.destroyAll(filter.where, (error, info) => {
+          expect(info.count).toEqual(1)
+          error ? done(error) : done()
+        })
+      })
+      .catch(done)
+  })
+})
+
+describe('Test Google Cloud Datastore Connector partial updates', () => {
+  beforeAll((done: DoneCallback) => {
+    Product.create({ id: 'plum', name: 'Plum', price: 1 }, (error) =>
+      error ? done(error) : done(),
+    )
+  })
+
+  afterAll((done: DoneCallback) => {
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should keep existing properties when updating by id', (done: DoneCallback) => {
+    Product.updateAll({ id: 'plum' }, { price: 2 }, (error) => {
+      if (error) return done(error)
+
+      Product.findById('plum', (error, product) => {
+        expect(product.name).toEqual('Plum')
+        expect(product.price).toEqual(2)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should remove missing properties when replacing by id', (done: DoneCallback) => {
+    Product.replaceById('plum', { price: 3 }, (error) => {
+      if (error) return done(error)
+
+      Product.findById('plum', (error, product) => {
+        expect(product.name).toBeUndefined()
+        expect(product.price).toEqual(3)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should keep concurrent writes when updating by a condition', (done: DoneCallback) => {
+    const connector = datasource.connector
+    const getMatchingKeys = connector.getMatchingKeys.bind(connector)
+    // another writer changes the entity between the query and the update
+    jest.spyOn(connector, 'getMatchingKeys').mockImplementationOnce(async (...args) => {
+      const keys = await getMatchingKeys(...args)
+      await new Promise((resolve, reject) =>
+        Product.updateAll({ id: 'plum' }, { name: 'Dried plum' }, (error) =>
+          error ? reject(error) : resolve(undefined),
+        ),
+      )
+      return keys
+    })
+
+    Product.updateAll({ price: 3 }, { price: 4 }, (error) => {
+      jest.restoreAllMocks()
+      if (error) return done(error)
+
+      Product.findById('plum', (error, product) => {
+        expect(product.name).toEqual('Dried plum')
+        expect(product.price).toEqual(4)
+        error ? done(error) : done()
+      })
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector types', () => {
+  beforeAll((done: DoneCallback) => {
+    Event.create(
+      [
+        { title: 'Launch', startsAt: new Date('2020-03-01'), location: { lat: 1.35, lng: 103.8 } },
+        { title: 'Retro', startsAt: new Date('2020-06-01') },
+      ],
+      (error) => (error ? done(error) : done()),
+    )
+  })
+
+  afterAll((done: DoneCallback) => {
+    Event.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should read dates and geo points back with their types', (done: DoneCallback) => {
+    Event.findOne({ where: { title: 'Launch' } }, (error, event) => {
+      expect(event.startsAt).toBeInstanceOf(Date)
+      expect(event.location.lat).toEqual(1.35)
+      expect(event.location.lng).toEqual(103.8)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should filter dates by range', (done: DoneCallback) => {
+    const where = { startsAt: { between: [new Date('2020-05-01'), new Date('2020-07-01')] } }
+    Event.find({ where }, (error, events) => {
+      expect(events.map((event) => event.title)).toEqual(['Retro'])
+      error ? done(error) : done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector indexes', () => {
+  afterAll((done: DoneCallback) => {
+    Article.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should save strings beyond the indexed limit in excluded properties', (done: DoneCallback) => {
+    const body = 'x'.repeat(2000)
+    Article.create({ title: 'Long read', body }, (error, article) => {
+      if (error) return done(error)
+
+      Article.findById(article.id, (error, found) => {
+        expect(found.body).toEqual(body)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should save entities without their excluded objects and arrays', (done: DoneCallback) => {
+    Article.create({ title: 'Short read' }, (error, article) => {
+      if (error) return done(error)
+
+      Article.updateAll({ id: article.id }, { title: 'Shorter read' }, (error, info) => {
+        expect(info.count).toEqual(1)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should save excluded objects and arrays', (done: DoneCallback) => {
+    const metadata = { source: 'x'.repeat(2000) }
+    const attachments = [{ name: 'a.txt' }, 'b.txt']
+    Article.create({ title: 'Annotated', metadata, attachments }, (error, article) => {
+      if (error) return done(error)
+
+      Article.findById(article.id, (error, found) => {
+        expect(found.metadata).toEqual(metadata)
+        expect(found.attachments).toEqual(attachments)
+        error ? done(error) : done()
+      })
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector index.yaml', () => {
+  it('Should generate composite indexes from model settings', () => {
+    const yaml = generateIndexYaml([
+      {
+        name: 'customer',
+        settings: { indexes: { typeAge: { keys: { type: 1, age: -1 } }, name: { name: 1 } } },
+      },
+    ])
+
+    expect(yaml).toEqual(
+      [
+        'indexes:',
+        '',
+        '- kind: customer',
+        '  properties:',
+        '  - name: type',
+        '  - name: age',
+        '    direction: desc',
+        '',
+      ].join('\n'),
+    )
+  })
+})
+
+describe('Test Google Cloud Datastore Connector discovery', () => {
+  beforeAll((done: DoneCallback) => {
+    Product.create({ id: 'fig', name: 'Fig', price: 2.5 }, (error) =>
+      error ? done(error) : done(),
+    )
+  })
+
+  afterAll((done: DoneCallback) => {
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should list the kinds of the database', (done: DoneCallback) => {
+    datasource.discoverModelDefinitions({}, (error, models) => {
+      expect(models.map((model) => model.name)).toContain('product')
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should infer the properties of a kind', (done: DoneCallback) => {
+    datasource.discoverSchemas('product', {}, (error, schemas) => {
+      const { properties, options } = schemas[0]
+      expect(properties.id).toEqual({ type: 'string', id: true })
+      expect(options.googleCloudDatastore.keyNames).toEqual(true)
+      expect(properties.name.type).toEqual('string')
+      expect(properties.price.type).toEqual('number')
+      expect(properties.createdAt.type).toEqual('date')
+      error ? done(error) : done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector name mapping', () => {
+  beforeAll((done: DoneCallback) => {
+    Shipment.create({ trackingNumber: 'TN-1' }, (error) => (error ? done(error) : done()))
+  })
+
+  afterAll((done: DoneCallback) => {
+    Shipment.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should persist mapped names in the mapped kind', async () => {
+    const query = datasource.connector.datastore.createQuery('shipment_record')
+    const [entities] = await query.run()
+    expect(entities.map((entity) => entity.tracking_number)).toEqual(['TN-1'])
+  })
+
+  it('Should filter and read mapped properties by their model names', (done: DoneCallback) => {
+    Shipment.find({ where: { trackingNumber: 'TN-1' } }, (error, shipments) => {
+      expect(shipments.map((shipment) => shipment.trackingNumber)).toEqual(['TN-1'])
+      error ? done(error) : done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector fields', () => {
+  beforeAll((done: DoneCallback) => {
+    Product.create(
+      [
+        { id: 'lime', name: 'Lime', price: 1 },
+        { id: 'quince', name: 'Quince' },
+      ],
+      (error) => (error ? done(error) : done()),
+    )
+  })
+
+  afterAll((done: DoneCallback) => {
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should return the entities missing a listed field', (done: DoneCallback) => {
+    Product.find({ fields: ['price'] }, (error, products) => {
+      expect(products.map((product) => product.toJSON())).toEqual([
+        { id: 'lime', price: 1 },
+        { id: 'quince' },
+      ])
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should only return the listed fields and the id', (done: DoneCallback) => {
+    Product.find({ fields: ['name'] }, (error, products) => {
+      expect(products[0].toJSON()).toEqual({ id: 'lime', name: 'Lime' })
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should not return the excluded fields', (done: DoneCallback) => {
+    Product.find({ fields: { price: false } }, (error, products) => {
+      expect(products[0].toJSON()).toEqual({ id: 'lime', name: 'Lime' })
+      error ? done(error) : done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector keys-only queries', () => {
+  beforeAll((done: DoneCallback) => {
+    Product.create(
+      [
+        { id: 'cherry', name: 'Cherry', price: 5 },
+        { id: 'grape', name: 'Grape', price: 6 },
+      ],
+      (error) => (error ? done(error) : done()),
+    )
+  })
+
+  afterAll((done: DoneCallback) => {
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should tell whether an entity exists', (done: DoneCallback) => {
+    Product.exists('cherry', (error, exists) => {
+      expect(exists).toEqual(true)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should return ids alone with the keysOnly option', (done: DoneCallback) => {
+    Product.find({ order: 'id ASC' }, { keysOnly: true }, (error, products) => {
+      expect(products.map((product) => product.toJSON())).toEqual([
+        { id: 'cherry' },
+        { id: 'grape' },
+      ])
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should check the other conditions of a where clause with an id', (done: DoneCallback) => {
+    Product.destroyAll({ id: 'grape', name: 'Cherry' }, (error, result) => {
+      if (error) return done(error)
+      expect(result.count).toEqual(0)
+
+      Product.exists('grape', (error, exists) => {
+        expect(exists).toEqual(true)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should only delete the entities matching the where clause', (done: DoneCallback) => {
+    Product.destroyAll({ name: 'Cherry' }, (error, result) => {
+      if (error) return done(error)
+      expect(result.count).toEqual(1)
+
+      Product.count((error, count) => {
+        expect(count).toEqual(1)
+        error ? done(error) : done()
+      })
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector errors', () => {
+  beforeAll((done: DoneCallback) => {
+    Product.create({ id: 'lime', name: 'Lime', price: 1 }, (error) =>
+      error ? done(error) : done(),
+    )
+  })
+
+  afterAll((done: DoneCallback) => {
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should report a conflict when creating an existing id', (done: DoneCallback) => {
+    Product.create({ id: 'lime', name: 'Lime' }, (error) => {
+      expect(error.statusCode).toEqual(409)
+      expect(error.code).toEqual('ENTITY_ALREADY_EXISTS')
+      done()
+    })
+  })
+
+  it('Should report a missing entity when updating its attributes', (done: DoneCallback) => {
+    datasource.connector.updateAttributes('product', 'kiwi', { price: 2 }, {}, (error) => {
+      expect(error.statusCode).toEqual(404)
+      expect(error.code).toEqual('ENTITY_NOT_FOUND')
+      done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector settings', () => {
+  const credentials = {
+    client_email: 'connector@project.iam.gserviceaccount.com',
+    private_key: 'key',
+  }
+
+  it('Should accept credentials as a JSON string', () => {
+    const connector = new GCPDataSource({
+      projectId: 'project',
+      credentials: JSON.stringify(credentials),
+    })
+    expect(connector.datastore.options.credentials).toEqual(credentials)
+  })
+
+  it('Should connect to the emulator host', () => {
+    const connector = new GCPDataSource({ projectId: 'project', emulatorHost: 'localhost:8081' })
+    expect(connector.datastore.options.servicePath).toEqual('localhost')
+    expect(connector.datastore.options.port).toEqual(8081)
+  })
+
+  it('Should report every invalid setting', () => {
+    expect(
+      () =>
+        new GCPDataSource({
+          credentials: '{"client_email":',
+          apiEndpoint: 'datastore.googleapis.com',
+          emulatorHost: 'localhost:8081',
+          namespace: 42,
+        }),
+    ).toThrow(
+      'Invalid Google Cloud Datastore settings: "namespace" must be a non-empty string, ' +
+        '"apiEndpoint" and "emulatorHost" can not be used together, ' +
+        '"credentials" must be a service account key or its JSON.',
+    )
+  })
+
+  it('Should reject a retry policy that is not an object', () => {
+    expect(() => new GCPDataSource({ retryPolicy: 3 })).toThrow(
+      'Invalid Google Cloud Datastore settings: "retryPolicy" must be false or an object.',
+    )
+  })
+
+  it('Should reject unknown retry settings', () => {
+    expect(() => new GCPDataSource({ retryPolicy: { attempts: 3 } })).toThrow(
+      'Invalid Google Cloud Datastore settings: "retryPolicy.attempts" is not a retry setting.',
+    )
+  })
+
+  it('Should reject retry settings that are not finite numbers', () => {
+    expect(
+      () => new GCPDataSource({ retryPolicy: { initialDelay: '100', maxDelay: Infinity } }),
+    ).toThrow(
+      'Invalid Google Cloud Datastore settings: "retryPolicy.initialDelay" must be a number of ' +
+        'at least 0, "retryPolicy.maxDelay" must be a number of at least 0.',
+    )
+  })
+
+  it('Should reject retry settings below their minimum', () => {
+    expect(
+      () =>
+        new GCPDataSource({ retryPolicy: { maxAttempts: 0, initialDelay: -1, multiplier: 0.5 } }),
+    ).toThrow(
+      'Invalid Google Cloud Datastore settings: "retryPolicy.maxAttempts" must be an integer of ' +
+        'at least 1, "retryPolicy.initialDelay" must be a number of at least 0, ' +
+        '"retryPolicy.multiplier" must be a number of at least 1.',
+    )
+  })
+
+  it('Should reject a fractional number of attempts', () => {
+    expect(() => new GCPDataSource({ retryPolicy: { maxAttempts: 2.5 } })).toThrow(
+      'Invalid Google Cloud Datastore settings: "retryPolicy.maxAttempts" must be an integer of ' +
+        'at least 1.',
+    )
+  })
+
+  it('Should accept a valid retry policy', () => {
+    expect(
+      () =>
+        new GCPDataSource({
+          retryPolicy: { maxAttempts: 5, initialDelay: 0, maxDelay: 1000, multiplier: 1.5 },
+        }),
+    ).not.toThrow()
+  })
+
+  it('Should fail the datasource with invalid settings', () => {
+    expect(
+      () =>
+        new DataSource({ connector: require('./datasource'), projectId: 'project', namespace: 42 }),
+    ).toThrow('Invalid Google Cloud Datastore settings: "namespace" must be a non-empty string.')
+  })
+})
+
+describe('Test Google Cloud Datastore Connector connection', () => {
+  const connectWith = (tokenError: Error, callback) => {
+    const connector = new GCPDataSource({ projectId: 'project' })
+    // verify the credentials even when the tests run against the emulator
+    delete connector.datastore.options.sslCreds
+    jest.spyOn(connector.datastore.auth, 'getAccessToken').mockRejectedValue(tokenError)
+    connector.connect(callback)
+  }
+
+  it('Should fail to connect with refused credentials', (done: DoneCallback) => {
+    const refused = Object.assign(new Error('invalid_grant: Invalid JWT Signature.'), {
+      response: { status: 400 },
+    })
+    connectWith(refused, (error) => {
+      expect(error.statusCode).toEqual(401)
+      expect(error.code).toEqual('UNAUTHENTICATED')
+      done()
+    })
+  })
+
+  it('Should fail to connect without reaching the token endpoint', (done: DoneCallback) => {
+    const unreachable = Object.assign(new Error('getaddrinfo ENOTFOUND oauth2.googleapis.com'), {
+      code: 'ENOTFOUND',
+    })
+    connectWith(unreachable, (error) => {
+      expect(error.statusCode).toEqual(503)
+      expect(error.code).toEqual('UNAVAILABLE')
+      done()
+    })
+  })
+
+  it('Should answer a ping', (done: DoneCallback) => {
+    datasource.ping((error) => (error ? done(error) : done()))
+  })
+
+  it('Should query again after disconnecting', (done: DoneCallback) => {
+    datasource.connector.disconnect((error) => {
+      if (error) return done(error)
+
+      datasource.connector.ping((error) => (error ? done(error) : done()))
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector retries', () => {
+  const aborted = Object.assign(new Error('too much contention on these datastore entities'), {
+    code: 10,
+  })
+
+  afterEach((done: DoneCallback) => {
+    jest.restoreAllMocks()
+    Product.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should retry a write aborted by contention', (done: DoneCallback) => {
+    jest.spyOn(datasource.connector.datastore, 'save').mockRejectedValueOnce(aborted)
+
+    Product.create({ id: 'fig', name: 'Fig' }, (error, product) => {
+      if (error) return done(error)
+      expect(product.id).toEqual('fig')
+      done()
+    })
+  })
+
+  it('Should not retry when the retry policy is disabled', (done: DoneCallback) => {
+    jest.spyOn(datasource.connector.datastore, 'save').mockRejectedValueOnce(aborted)
+
+    Product.create({ id: 'fig', name: 'Fig' }, { retryPolicy: false }, (error) => {
+      expect(error.statusCode).toEqual(409)
+      expect(error.code).toEqual('TRANSACTION_CONFLICT')
+      done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector optimistic locking', () => {
+  let ticket
+
+  beforeAll((done: DoneCallback) => {
+    Ticket.create({ title: 'Refund' }, (error, result) => {
+      ticket = result
+      error ? done(error) : done()
+    })
+  })
+
+  afterAll((done: DoneCallback) => {
+    Ticket.destroyAll((error) => (error ? done(error) : done()))
+  })
+
+  it('Should create entities at version 1', () => {
+    expect(ticket.version).toEqual(1)
+  })
+
+  it('Should increment the version on every update', (done: DoneCallback) => {
+    Ticket.updateAll({ id: ticket.id }, { title: 'Partial refund', version: 1 }, (error) => {
+      if (error) return done(error)
+
+      Ticket.findById(ticket.id, (error, result) => {
+        expect(result.version).toEqual(2)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should fail to replace a changed entity', (done: DoneCallback) => {
+    Ticket.replaceById(ticket.id, { title: 'Full refund', version: 1 }, (error) => {
+      expect(error.statusCode).toEqual(409)
+      expect(error.code).toEqual('VERSION_CONFLICT')
+      done()
+    })
+  })
+})
+
+describe('Test Google Cloud Datastore Connector soft deletes', () => {
+  let note
+
+  beforeAll((done: DoneCallback) => {
+    Note.create({ text: 'Call back' }, (error, result) => {
+      note = result
+      if (error) return done(error)
+
+      Note.deleteById(note.id, (error) => (error ? done(error) : done()))
+    })
+  })
+
+  afterAll((done: DoneCallback) => {
+    datasource.connector.purge('note', {}, {}, (error) => (error ? done(error) : done()))
+  })
+
+  it('Should not read soft deleted entities', (done: DoneCallback) => {
+    Note.findById(note.id, (error, result) => {
+      if (error) return done(error)
+      expect(result).toBeNull()
+
+      Note.count((error, count) => {
+        expect(count).toEqual(0)
+        error ? done(error) : done()
+      })
+    })
+  })
+
+  it('Should read soft deleted entities with the withDeleted option', (done: DoneCallback) => {
+    Note.find({}, { withDeleted: true }, (error, notes) => {
+      expect(notes.length).toEqual(1)
+      expect(notes[0].deletedAt).toBeInstanceOf(Date)
+      error ? done(error) : done()
+    })
+  })
+
+  it('Should not upsert soft deleted entities', (done: DoneCallback) => {
+    Note.updateOrCreate({ id: note.id, text: 'Call again' }, (error) => {
+      expect(error.statusCode).toEqual(409)
+      expect(error.code).toEqual('ENTITY_DELETED')
+      done()
+    })
+  })
+
+  it('Should not find soft deleted entities or create them again', (done: DoneCallback) => {
+    Note.findOrCreate({ where: { id: note.id } }, { text: 'Call again' }, (error) => {
+      expect(error.statusCode).toEqual(409)
+      expect(error.code).toEqual('ENTITY_DELETED')
+      done()
+    })
+  })
+
+  it('Should permanently delete purged entities', (done: DoneCallback) => {
+    datasource.connector.purge('note', { id: note.id }, {}, (error) => {
+      if (error) return done(error)
+
+      Note.count({}, { withDeleted: true }, (error, count) => {
+        expect(count).toEqual(0)
+        error ? done(error) : done()
+      })
+    })
+  })
+})
@@ -1,17 +1,14 @@
-import { Datastore } from '@google-cloud/datastore'
+import { Datastore, DatastoreOptions, Transaction } from '@google-cloud/datastore'
 import { entity, Entity as DataStoreEntity } from '@google-cloud/datastore/build/src/entity'
-import { Query } from '@google-cloud/datastore/build/src/query'
-import {
-  CommitResponse,
-  CreateReadStreamOptions,
-  DeleteResponse,
-  UpdateResponse,
-} from '@google-cloud/datastore/build/src/request'
+import { Operator, Query, RunQueryInfo } from '@google-cloud/datastore/build/src/query'
+import { CommitResponse, DeleteResponse } from '@google-cloud/datastore/build/src/request'
 import { Count, Entity } from '@loopback/repository'
 import { CallOptions } from 'google-gax'
+import { promises as fs } from 'fs'
 import * as Long from 'long'
 import { Connector } from 'loopback-connector'
 import * as path from 'path'
+import { pipeline, Readable, Transform } from 'stream'
 
 type LoopBackEntity = Entity
 type LoopBackCountResult = Count
@@ -22,30 +19,701 @@ type OrderQuery = {
   ascending?: boolean
   descending?: boolean
 }
-type CallbackFunction = (error?: Error, result?: any) => {}
+type CallbackFunction = (error?: Error, result?: any, info?: any) => {}
+type DatastoreClient = Datastore | Transaction
+type LoopBackTransaction = { connection: Transaction }
+type ConnectorOptions = CallOptions & {
+  transaction?: LoopBackTransaction
+  namespace?: string
+  startCursor?: string
+  endCursor?: string
+  queryInfo?: RunQueryInfo
+  batchSize?: number
+  batchConcurrency?: number
+  keysOnly?: boolean
+  retryPolicy?: Partial<RetrySettings> | false
+  withDeleted?: boolean
+}
+type ParentSettings = { model: string; property: string }
+type ModelSettings = {
+  kind?: string
+  namespace?: string
+  parent?: ParentSettings
+  versionProperty?: string
+  softDelete?: boolean
+  keyNames?: boolean
+}
+type AncestorFilter = { model: string; id: string }
+type KeyIdentifier = number | string | entity.Int
+type PropertyFilter = { property: string; operator: Operator; value: any }
+type QueryBranch = Array<PropertyFilter>
+type BatchSettings = { batchSize: number; batchConcurrency: number }
+type RetrySettings = {
+  maxAttempts: number
+  initialDelay: number
+  maxDelay: number
+  multiplier: number
+}
+type PropertyDefinition = { type?: any; [key: string]: any }
+type PropertyDefinitions = { [property: string]: PropertyDefinition }
+type ModelDefinition = { name: string; properties?: PropertyDefinitions; settings?: any }
+type IndexProperty = { name: string; direction: 'asc' | 'desc' }
+type CompositeIndex = { kind: string; ancestor: boolean; properties: Array<IndexProperty> }
+type DiscoveryOptions = {
+  owner?: string
+  schema?: string
+  namespace?: string
+  all?: boolean
+  sampleSize?: number
+}
+type DiscoveredModel = { type: 'table'; name: string; owner?: string }
+type ServiceAccountCredentials = { client_email: string; private_key: string; project_id?: string }
+type ConnectionSettings = {
+  projectId?: string
+  keyFilename?: string
+  credentials?: ServiceAccountCredentials | string
+  apiEndpoint?: string
+  emulatorHost?: string
+  namespace?: string
+  clientConfig?: { [key: string]: any }
+  retryPolicy?: Partial<RetrySettings> | false
+}
+
+// Datastore rejects commits with more mutations than this
+const MAX_MUTATIONS_PER_COMMIT = 500
+// Datastore rejects lookups of more keys than this
+const MAX_KEYS_PER_LOOKUP = 1000
+type MutationMethod = 'insert' | 'update' | 'upsert'
+
+// gRPC status codes returned by Datastore, see google-gax's Status enum
+const GrpcStatus = {
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  UNAVAILABLE: 14,
+  UNAUTHENTICATED: 16,
+}
+
+// transient failures, after which an idempotent write can safely be sent again
+const RETRYABLE_STATUSES = [
+  GrpcStatus.ABORTED,
+  GrpcStatus.UNAVAILABLE,
+  GrpcStatus.DEADLINE_EXCEEDED,
+]
+// an insert that timed out may have been committed, retrying it would fail with ALREADY_EXISTS
+// or, for allocated ids, create the entity twice
+const RETRYABLE_INSERT_STATUSES = [GrpcStatus.ABORTED]
+const DEFAULT_RETRY_SETTINGS: RetrySettings = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  maxDelay: 5000,
+  multiplier: 2,
+}
+// the smallest value of each retry setting, maxAttempts also has to be an integer
+const MIN_RETRY_SETTINGS: RetrySettings = {
+  maxAttempts: 1,
+  initialDelay: 0,
+  maxDelay: 0,
+  multiplier: 1,
+}
+
+/**
+ * Error passed to LoopBack by every connector method. The `statusCode` is picked up by LoopBack's
+ * REST error handler, the `code` identifies the failure for callers, and the original Datastore
+ * error, if any, is kept as `cause`.
+ */
+class DatastoreError extends Error {
+  statusCode: number
+  code: string
+  cause?: Error
+
+  constructor(statusCode: number, code: string, message: string, cause?: Error) {
+    super(message)
+    this.name = 'DatastoreError'
+    this.statusCode = statusCode
+    this.code = code
+    this.cause = cause
+  }
+}
 
 function initializeDataSource(dataSource, callback: CallbackFunction) {
+  // invalid settings throw here, juggler reports them from the DataSource constructor
   dataSource.connector = new GoogleCloudDatastore(dataSource.settings)
-  process.nextTick(() => {
-    callback()
-  })
+
+  if (dataSource.settings.lazyConnect) {
+    process.nextTick(() => {
+      callback()
+    })
+    return
+  }
+
+  dataSource.connector.connect(callback)
 }
 
 class GoogleCloudDatastore extends Connector {
   datastore: Datastore
+  // inherited from loopback-connector's Connector, which does not ship type definitions
+  settings: { [key: string]: any }
+  _models: { [model: string]: any }
+  getModelDefinition: (model: string) => any
 
   constructor(dataSourceProperties: any) {
-    super()
-    const { keyFilename, projectId } = dataSourceProperties
+    super('googleCloudDatastore', dataSourceProperties)
+    this.datastore = new Datastore(GoogleCloudDatastore.getClientOptions(dataSourceProperties))
 
-    if (!!keyFilename && !!projectId) {
-      this.datastore = new Datastore({
-        keyFilename: path.resolve(keyFilename),
-        projectId,
-      })
-    } else {
-      this.datastore = new Datastore()
+    // the client connects to every custom endpoint without TLS, as it would to the emulator, but
+    // a regional or private endpoint of the real service needs TLS and the credentials
+    if (dataSourceProperties.apiEndpoint) {
+      delete this.datastore.options.sslCreds
+    }
+  }
+
+  /**
+   * Build the options of the Datastore client from the datasource settings, and validate them.
+   * Every setting is optional: without credentials the client uses the application default
+   * credentials, e.g. those of the service account a GKE workload runs as, and without a project
+   * id the one of the credentials or of the environment.
+   *
+   * - `projectId`: the Google Cloud project.
+   * - `keyFilename`: path to a service account JSON key.
+   * - `credentials`: the contents of a service account JSON key, as an object or a JSON string,
+   *  e.g. injected from a secret as an environment variable.
+   * - `apiEndpoint`: another endpoint of the Datastore API, e.g. a regional one.
+   * - `emulatorHost`: host and port of a Datastore emulator, which takes precedence over the
+   *  DATASTORE_EMULATOR_HOST environment variable.
+   * - `namespace`: the default namespace, see {@link getNamespace}.
+   * - `clientConfig`: retry and timeout settings of the gRPC client, in the format of google-gax.
+   * - `retryPolicy`: retries of writes and transactions, see {@link getRetrySettings}.
+   *
+   * @param {Object} settings - the datasource settings.
+   * @returns {DatastoreOptions}
+   * @throws {DatastoreError} - listing every invalid setting.
+   */
+  private static getClientOptions(settings: ConnectionSettings): DatastoreOptions {
+    const { projectId, keyFilename, apiEndpoint, emulatorHost, namespace, clientConfig } = settings
+    const errors: Array<string> = []
+    const isString = (value: any) => typeof value === 'string' && value.length > 0
+    const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value)
+
+    for (const [name, value] of Object.entries({
+      projectId,
+      keyFilename,
+      apiEndpoint,
+      emulatorHost,
+      namespace,
+    })) {
+      if (value !== undefined && !isString(value)) {
+        errors.push(`"${name}" must be a non-empty string`)
+      }
+    }
+
+    if (clientConfig !== undefined && !isObject(clientConfig)) {
+      errors.push('"clientConfig" must be an object')
+    }
+
+    const { retryPolicy } = settings
+    if (retryPolicy !== undefined && retryPolicy !== false && !isObject(retryPolicy)) {
+      errors.push('"retryPolicy" must be false or an object')
+    } else if (retryPolicy) {
+      for (const [name, value] of Object.entries(retryPolicy)) {
+        const minimum = MIN_RETRY_SETTINGS[name]
+        const isInteger = name === 'maxAttempts'
+        if (minimum === undefined) {
+          errors.push(`"retryPolicy.${name}" is not a retry setting`)
+        } else if (
+          typeof value !== 'number' ||
+          !Number.isFinite(value) ||
+          value < minimum ||
+          (isInteger && !Number.isInteger(value))
+        ) {
+          errors.push(
+            `"retryPolicy.${name}" must be ${isInteger ? 'an integer' : 'a number'} of at least ` +
+              `${minimum}`,
+          )
+        }
+      }
+    }
+
+    if (apiEndpoint && emulatorHost) {
+      errors.push('"apiEndpoint" and "emulatorHost" can not be used together')
+    }
+
+    const credentials = GoogleCloudDatastore.parseCredentials(settings.credentials, errors)
+    if (credentials && keyFilename) {
+      errors.push('"credentials" and "keyFilename" can not be used together')
+    }
+
+    if (errors.length > 0) {
+      throw new DatastoreError(
+        500,
+        'INVALID_SETTINGS',
+        `Invalid Google Cloud Datastore settings: ${errors.join(', ')}.`,
+      )
+    }
+
+    const options: DatastoreOptions & { clientConfig?: object } = {
+      projectId: projectId || credentials?.project_id,
+      namespace,
+      apiEndpoint: emulatorHost || apiEndpoint,
+      clientConfig,
+    }
+
+    if (keyFilename) {
+      options.keyFilename = path.resolve(keyFilename)
+    }
+
+    if (credentials) {
+      options.credentials = {
+        client_email: credentials.client_email,
+        private_key: credentials.private_key,
+      }
+    }
+
+    // undefined options would override the defaults of the client
+    for (const name of Object.keys(options)) {
+      if (options[name] === undefined) {
+        delete options[name]
+      }
+    }
+
+    return options
+  }
+
+  /**
+   * Read the service account credentials of the datasource settings, which can be the parsed JSON
+   * key or the JSON string itself. Private keys read from environment variables often have their
+   * line breaks escaped, they are restored.
+   *
+   * @param {Object | String} [credentials] - the `credentials` setting.
+   * @param {Array<String>} errors - the validation errors, a description is added to it when the
+   *  credentials are invalid.
+   * @returns {ServiceAccountCredentials | undefined}
+   */
+  private static parseCredentials(
+    credentials: ServiceAccountCredentials | string | undefined,
+    errors: Array<string>,
+  ): ServiceAccountCredentials | undefined {
+    if (credentials === undefined) {
+      return undefined
+    }
+
+    let parsed = credentials
+    if (typeof credentials === 'string') {
+      try {
+        parsed = JSON.parse(credentials)
+      } catch (error) {
+        errors.push('"credentials" must be a service account key or its JSON')
+        return undefined
+      }
+    }
+
+    if (
+      typeof parsed !== 'object' ||
+      parsed === null ||
+      typeof parsed.client_email !== 'string' ||
+      typeof parsed.private_key !== 'string'
+    ) {
+      errors.push('"credentials" must include a "client_email" and a "private_key"')
+      return undefined
+    }
+
+    return { ...parsed, private_key: parsed.private_key.replace(/\\n/g, '\n') }
+  }
+
+  /**
+   * Verify the credentials of the connector when the datasource connects, unless it is configured
+   * with `lazyConnect`, by requesting an access token. Invalid or deleted service account keys
+   * fail the connection instead of the first query. The emulator does not authenticate calls, so
+   * nothing is verified when connecting to it.
+   *
+   * @param {Function} callback - called with the Datastore client once connected.
+   */
+  async connect(callback: CallbackFunction): Promise<void> {
+    try {
+      // the client only sets insecure channel credentials when connecting to the emulator
+      if (!this.datastore.options.sslCreds) {
+        await this.datastore.auth.getAccessToken()
+      }
+      callback(null, this.datastore)
+    } catch (error) {
+      callback(GoogleCloudDatastore.toConnectionError(error))
+    }
+  }
+
+  /**
+   * Translate an error thrown while connecting into a {@link DatastoreError}. Only credentials
+   * the token endpoint refuses, keys that can't be decoded and missing credentials are reported
+   * as 401. Network failures, e.g. an unreachable token endpoint or metadata server, are reported
+   * as 503 so they aren't mistaken for invalid credentials, and errors with a gRPC status are
+   * translated by {@link toLoopBackError}.
+   *
+   * @param {Error} error - the error thrown when requesting an access token.
+   * @returns {DatastoreError}
+   */
+  private static toConnectionError(error: any): DatastoreError {
+    if (typeof error?.code === 'number' && Object.values(GrpcStatus).includes(error.code)) {
+      return GoogleCloudDatastore.toLoopBackError(error)
+    }
+
+    const message = error?.message || String(error)
+
+    if (
+      [400, 401, 403].includes(error?.response?.status) ||
+      String(error?.code).startsWith('ERR_OSSL') ||
+      /invalid_grant|invalid_client|unauthorized_client|default credentials|private key|PEM/i.test(
+        message,
+      )
+    ) {
+      return new DatastoreError(
+        401,
+        'UNAUTHENTICATED',
+        `Could not authenticate with Google Cloud Datastore: ${message}`,
+        error,
+      )
+    }
+
+    if (
+      ['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT'].includes(error?.code)
+    ) {
+      return new DatastoreError(
+        503,
+        'UNAVAILABLE',
+        `Could not reach Google Cloud Datastore: ${message}`,
+        error,
+      )
+    }
+
+    return GoogleCloudDatastore.toLoopBackError(error)
+  }
+
+  /**
+   * Check that Datastore can be queried, e.g. from a readiness probe through LoopBack's
+   * `dataSource.ping()`. A keys-only query of a single Kind from the `__kind__` metadata is run,
+   * which costs one small operation and fails as soon as the service account loses access.
+   *
+   * @param {Function} callback - called without arguments when Datastore answered.
+   */
+  async ping(callback: CallbackFunction): Promise<void> {
+    try {
+      await this.datastore.createQuery('__kind__').select('__key__').limit(1).run()
+      callback()
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Close the gRPC channels of the Datastore client, so that the application can shut down
+   * gracefully, e.g. when LoopBack stops the datasource. The client opens new channels if the
+   * connector is used again.
+   *
+   * @param {Function} callback - called once the channels are closed.
+   */
+  async disconnect(callback: CallbackFunction): Promise<void> {
+    try {
+      const clients = Array.from(this.datastore.clients_.values())
+      this.datastore.clients_.clear()
+      await Promise.all(clients.map((client) => client.close()))
+      callback()
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Get the connector specific settings of a LoopBack model, declared under the
+   * `googleCloudDatastore` key of the model settings.
+   *
+   * For Example: @model({ settings: { googleCloudDatastore: { namespace: 'tenant-a' } } })
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @returns {ModelSettings} - the settings, or an empty object if none were declared.
+   */
+  private getModelSettings(model: string): ModelSettings {
+    const modelDefinition = this.getModelDefinition(model)
+    return modelDefinition?.settings?.googleCloudDatastore || {}
+  }
+
+  /**
+   * Get the Kind a LoopBack model is persisted in, which is the model name unless the model
+   * settings map it to another Kind, e.g. one shared with another service:
+   *
+   * @model({ settings: { googleCloudDatastore: { kind: 'order_line' } } })
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @returns {String}
+   */
+  private getKind(model: string): string {
+    return this.getModelSettings(model).kind || model
+  }
+
+  /**
+   * Resolve the namespace a model's {@link GCPDataStoreEntity} live in. Namespaces partition a
+   * Datastore project so the same Kind can hold isolated data for every tenant.
+   *
+   * The most specific setting wins: `options.namespace` of the current call, then the
+   * `namespace` of the model settings, then the `namespace` of the datasource. When none are set
+   * the default namespace is used.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {String | undefined}
+   */
+  private getNamespace(model: string, options?: ConnectorOptions): string | undefined {
+    return options?.namespace || this.getModelSettings(model).namespace || this.settings.namespace
+  }
+
+  /**
+   * Extract the Datastore {@link Transaction} from the options LoopBack passes to every connector
+   * method. When a repository method is called with `{ transaction }` in its options, LoopBack
+   * wraps the object we handed back in {@link beginTransaction} and exposes it as `connection`.
+   *
+   * @param {Object} options - the options object passed by LoopBack.
+   * @returns {Transaction | undefined} - the active transaction, if there is one.
+   */
+  private static getTransaction(options?: ConnectorOptions): Transaction | undefined {
+    return options?.transaction?.connection || undefined
+  }
+
+  /**
+   * Get the client operations should be executed against. Inside a transaction reads and writes
+   * have to go through the {@link Transaction} so they are applied atomically on commit,
+   * otherwise they go straight to {@link Datastore}.
+   *
+   * @param {Object} options - the options object passed by LoopBack.
+   * @returns {DatastoreClient}
+   */
+  private getClient(options?: ConnectorOptions): DatastoreClient {
+    return GoogleCloudDatastore.getTransaction(options) || this.datastore
+  }
+
+  /**
+   * Run read-modify-write operations atomically.
+   *
+   * The operations join the caller's {@link Transaction} when there is one. Otherwise a transaction
+   * is started for them, committed when they succeed and rolled back when they fail.
+   *
+   * @param {Object} options - the options object passed by LoopBack.
+   * @param {Function} operations - receives the options to pass to every read and write.
+   * @returns {Promise} - resolves with the result of the operations.
+   */
+  private async runInTransaction<T>(
+    options: ConnectorOptions,
+    operations: (transactionOptions: ConnectorOptions) => Promise<T>,
+  ): Promise<T> {
+    if (GoogleCloudDatastore.getTransaction(options)) {
+      return operations(options)
+    }
+
+    // a transaction that failed was not committed, so it can be retried from the start
+    return this.withRetry(options, RETRYABLE_STATUSES, async () => {
+      const transaction = this.datastore.transaction()
+      await transaction.run()
+
+      try {
+        const result = await operations({ ...options, transaction: { connection: transaction } })
+        await transaction.commit()
+        return result
+      } catch (error) {
+        await transaction.rollback().catch(() => undefined)
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Get the retry policy of an operation. The defaults can be changed with the `retryPolicy`
+   * datasource setting and overridden per call through the options, e.g.
+   * `repository.create(data, { retryPolicy: { maxAttempts: 5 } })`. `retryPolicy: false` disables
+   * retries. The `retry` option is left to google-gax, which retries single RPCs.
+   *
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {RetrySettings}
+   */
+  private getRetrySettings(options?: ConnectorOptions): RetrySettings {
+    const { retryPolicy } = this.settings
+    if (retryPolicy === false || options?.retryPolicy === false) {
+      return { ...DEFAULT_RETRY_SETTINGS, maxAttempts: 1 }
+    }
+
+    const override = options?.retryPolicy as Partial<RetrySettings>
+    return { ...DEFAULT_RETRY_SETTINGS, ...retryPolicy, ...override }
+  }
+
+  /**
+   * Run an operation, and run it again when it fails with one of the given gRPC statuses, which
+   * Datastore returns under contention (ABORTED) or when it is briefly unreachable. Attempts are
+   * spaced with an exponential backoff and a random jitter, so clients contending for the same
+   * entities don't retry in lockstep. See {@link getRetrySettings} for the policy.
+   *
+   * Only idempotent operations may be retried, see {@link saveEntities}.
+   *
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @param {Array<number>} statuses - the gRPC statuses to retry.
+   * @param {Function} operation - the operation to run.
+   * @returns {Promise} - resolves with the result of the first successful attempt.
+   */
+  private async withRetry<T>(
+    options: ConnectorOptions | undefined,
+    statuses: Array<number>,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const { maxAttempts, initialDelay, maxDelay, multiplier } = this.getRetrySettings(options)
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation()
+      } catch (error) {
+        if (attempt >= maxAttempts || !statuses.includes(error?.code)) {
+          throw error
+        }
+
+        const backoff = Math.min(maxDelay, initialDelay * multiplier ** (attempt - 1))
+        await new Promise((resolve) => setTimeout(resolve, Math.random() * backoff))
+      }
+    }
+  }
+
+  /**
+   * Read a single {@link GCPDataStoreEntity} by key.
+   *
+   * @param {EntityKey} key - the key of the entity.
+   * @param {Object} [options] - the options object, used to read within a transaction.
+   * @returns {Promise<GCPDataStoreEntity | undefined>} - undefined if the entity doesn't exist.
+   */
+  private async getEntity(
+    key: EntityKey,
+    options?: ConnectorOptions,
+  ): Promise<GCPDataStoreEntity | undefined> {
+    const [entity] = await this.getClient(options).get(key)
+    return entity || undefined
+  }
+
+  /**
+   * Persist {@link GCPDataStoreEntity} objects using the given mutation method.
+   *
+   * Inside a transaction the mutations are queued on the {@link Transaction} and sent when it is
+   * committed, so nothing is returned. Otherwise they are committed straight away.
+   *
+   * @param {Array} entities - entities in the {key, data} format.
+   * @param {String} method - <insert|update|upsert> the mutation to apply.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Promise<CommitResponse | void>}
+   */
+  private async saveEntities(
+    entities: Array<GCPDataStoreEntity>,
+    method: MutationMethod,
+    options?: ConnectorOptions,
+  ): Promise<CommitResponse | void> {
+    const mutations = entities.map((entity) => Object.assign({}, entity, { method }))
+    const transaction = GoogleCloudDatastore.getTransaction(options)
+
+    if (transaction) {
+      transaction.save(mutations)
+      return
+    }
+
+    const statuses = method === 'insert' ? RETRYABLE_INSERT_STATUSES : RETRYABLE_STATUSES
+    return this.withRetry(options, statuses, () => this.datastore.save(mutations))
+  }
+
+  /**
+   * Delete {@link GCPDataStoreEntity} objects by key, queuing the deletes on the
+   * {@link Transaction} if there is one.
+   *
+   * @param {EntityKey | Array} keys - the keys to delete.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Promise<DeleteResponse | void>}
+   */
+  private async deleteKeys(
+    keys: EntityKey | Array<EntityKey>,
+    options?: ConnectorOptions,
+  ): Promise<DeleteResponse | void> {
+    const transaction = GoogleCloudDatastore.getTransaction(options)
+
+    if (transaction) {
+      transaction.delete(keys)
+      return
+    }
+
+    return this.withRetry(options, RETRYABLE_STATUSES, () => this.datastore.delete(keys, options))
+  }
+
+  /**
+   * Get the size of the batches multi-entity writes are split into, and how many batches are
+   * written at the same time. Both can be configured with the `batchSize` and `batchConcurrency`
+   * datasource settings and overridden per call through the options.
+   *
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {BatchSettings}
+   */
+  private getBatchSettings(options?: ConnectorOptions): BatchSettings {
+    const batchSize = options?.batchSize || this.settings.batchSize || MAX_MUTATIONS_PER_COMMIT
+    return {
+      batchSize: Math.min(batchSize, MAX_MUTATIONS_PER_COMMIT),
+      batchConcurrency: options?.batchConcurrency || this.settings.batchConcurrency || 1,
+    }
+  }
+
+  /**
+   * Split a multi-entity write into batches that respect Datastore's limit of mutations per
+   * commit, and run them with the configured concurrency, see {@link getBatchSettings}.
+   *
+   * Batches are committed independently, so if one fails the batches committed before it are not
+   * rolled back. Use a transaction when the write has to be atomic.
+   *
+   * @param {Array} items - the entities or keys to write.
+   * @param {Function} write - writes a batch and resolves with the number of affected entities.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Promise<number>} - the number of affected entities across all batches.
+   */
+  private async writeInBatches<T>(
+    items: Array<T>,
+    write: (batch: Array<T>) => Promise<number>,
+    options?: ConnectorOptions,
+  ): Promise<number> {
+    const { batchSize, batchConcurrency } = this.getBatchSettings(options)
+    const batches: Array<Array<T>> = []
+    for (let start = 0; start < items.length; start += batchSize) {
+      batches.push(items.slice(start, start + batchSize))
+    }
+
+    let count = 0
+    let nextBatch = 0
+    const worker = async () => {
+      while (nextBatch < batches.length) {
+        // awaited before adding, concurrent workers would otherwise add to a stale count
+        const written = await write(batches[nextBatch++])
+        count += written
+      }
+    }
+
+    const workers = Math.min(batchConcurrency, batches.length)
+    await Promise.all(Array.from({ length: workers }, worker))
+    return count
+  }
+
+  /**
+   * Determine how many entities were affected by a write.
+   *
+   * Writes made through a {@link Transaction} are only queued until the transaction is committed,
+   * so there is no commit response to read the mutation results from. In that case we trust the
+   * number of entities that were queued.
+   *
+   * @param {CommitResponse | void} response - the response of the write, if any.
+   * @param {number} queuedEntities - number of entities sent with the write.
+   * @returns {number}
+   */
+  private static countMutations(response: CommitResponse | void, queuedEntities: number): number {
+    if (!response) {
+      return queuedEntities
     }
+    return response[0].mutationResults.length
   }
 
   /**
@@ -55,19 +723,23 @@ class GoogleCloudDatastore extends Connector {
    * a Collection in MongoDB or a Table in SQL. It is used to organize a group
    * of {@link GCPDataStoreEntity}.
    *
-   * If the LoopBack Model name changes, the entity persisted will be associated with a new key
-   * using the new model name as the Kind. So you want to refactor your code carefully else
-   * Entities may end up in a different collection; resulting in unexpected query operations.
+   * The Kind is the LoopBack model name, see {@link getKind}. If the LoopBack Model name changes,
+   * the entity persisted will be associated with a new key using the new model name as the Kind,
+   * unless the model settings keep mapping it to the previous Kind. So you want to refactor your
+   * code carefully else Entities may end up in a different collection; resulting in unexpected
+   * query operations.
    *
    * For more information on LoopBack model definitions, visit:
    * https://loopback.io/doc/en/lb4/Model.html
    *
-   * @param {String} kindName - name of the model defined in LoopBack's model annotation.
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
    *  For Example: @model({ name: Task.name })
+   * @param {String} [namespace] - namespace the key belongs to, see {@link getNamespace}.
    * @returns {EntityKey}
    */
-  private createEntityKey(kindName: string): EntityKey {
-    return this.datastore.key(kindName)
+  private createEntityKey(model: string, namespace?: string, parentKey?: EntityKey): EntityKey {
+    const parentPath = parentKey ? parentKey.path : []
+    return this.datastore.key({ namespace, path: [...parentPath, this.getKind(model)] })
   }
 
   /**
@@ -82,540 +754,3305 @@ class GoogleCloudDatastore extends Connector {
    * right operations in methods. In the {@link this.datastore.save} method for example, it will
    * use the 'update' method instead of creating a new object using the 'insert' method.
    *
-   * @param {String} kindName - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name }). This will be used as the Kind name for GCP
-   *  Datastore.
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name }). Its Kind, see {@link getKind}, will be used as the
+   *  Kind name for GCP Datastore.
    * @param {String} id - id for existing {@link GCPDataStoreEntity}.
+   * @param {String} [namespace] - namespace the key belongs to, see {@link getNamespace}.
+   * @param {EntityKey} [parentKey] - key of the parent entity, see {@link createParentKey}.
    * @returns {EntityKey}
    */
-  private createEntityKeyWithId(kindName: string, id: string): EntityKey {
-    return this.datastore.key([kindName, Number(id)])
+  private createEntityKeyWithId(
+    model: string,
+    id: string,
+    namespace?: string,
+    parentKey?: EntityKey,
+  ): EntityKey {
+    const parentPath = parentKey ? parentKey.path : []
+    const identifier = this.toKeyIdentifier(model, id)
+    return this.datastore.key({
+      namespace,
+      path: [...parentPath, this.getKind(model), identifier],
+    })
   }
 
   /**
-   * Creates valid {@link GCPDataStoreEntity} that is ready to be saved to a specified Kind.
+   * Get the definition of the id property of a LoopBack model.
    *
-   * @param {object} entityProperties - an object literal containing properties and values
-   *  for a given instance of an {@link LoopBackEntity}. These properties and their values will be
-   *  persisted into the new or existing {@link GCPDataStoreEntity}.
-   * @param {EntityKey} key - a valid entity Key used to organize groups of
-   *  {@link GCPDataStoreEntity}.
-   * @returns {{data: object & {createdAt: string; updatedAt: null}; key: entity.Key}}
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @returns {Object | undefined} - the property definition, e.g. { type: String, id: true }
    */
-  private static createEntity(entityProperties: object, key: EntityKey): GCPDataStoreEntity {
-    const data = Object.assign(entityProperties, {
-      createdAt: new Date().toJSON(),
-      updatedAt: null,
-    })
-    return {
-      key,
-      data,
+  private getIdPropertyDefinition(model: string) {
+    return this.getModelDefinition(model)?.properties?.id
+  }
+
+  /**
+   * Determine whether a model identifies its {@link GCPDataStoreEntity} with key names instead of
+   * numeric ids.
+   *
+   * Key names are opt-in with the keyNames model setting, for slugs, UUIDs or ids imported from
+   * another system that look numeric. Every other model uses the numeric ids allocated by
+   * Datastore, even when the id property is typed as a string, and only ids that are not numeric
+   * are used as key names, see {@link toKeyIdentifier}.
+   *
+   * For Example:
+   * @model({ settings: { googleCloudDatastore: { keyNames: true } } })
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @returns {boolean}
+   */
+  private usesKeyNames(model: string): boolean {
+    return this.getModelSettings(model).keyNames === true
+  }
+
+  /**
+   * Ensure an entity about to be created without an id can be given one. Datastore only
+   * allocates numeric ids, which a model with key names would read back as key names, see
+   * {@link toKeyIdentifier}, so its entities could never be found by the returned id.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   */
+  private checkIdCanBeAllocated(model: string): void {
+    if (this.usesKeyNames(model)) {
+      throw new DatastoreError(
+        400,
+        'MISSING_ID',
+        `Model "${model}" uses key names, an id has to be supplied to create its entities.`,
+      )
     }
   }
 
   /**
-   * Create new {@link GCPDataStoreEntity}.
+   * Convert a LoopBack id into the last element of an {@link EntityKey} path.
    *
-   * When successful, it will execute the callback with the value of the new
-   * {@link GCPDataStoreEntity}'s id. LoopBack will substitute the id property on the
-   * {@link LoopBackEntity}'s model definition with the result of the callback. Loopback does not
-   * take any further information from the Datastore response, instead it assumes the persistence
-   * later won't modify the original values used to form the persistence request and just appends
-   * the id to the previously undefined id property.
+   * Numeric ids beyond the range of safe JavaScript integers are wrapped with
+   * {@link Datastore.int} so they don't lose precision, and ids that are not numeric at all are
+   * used as key names.
    *
    * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {Object} data - the property/value pairs to be created
-   * @param {Object} options - configure network options.
-   * @param {Function} [callback] - LoopBack relies on this being a callback and not a promise
-   *  to bubble up the result.
-   * @returns Promise<void>
+   * @param {String | Number} id - the LoopBack id.
+   * @returns {KeyIdentifier}
+   */
+  private toKeyIdentifier(model: string, id: string | number): KeyIdentifier {
+    if (this.usesKeyNames(model)) {
+      return String(id)
+    }
+
+    const numericId = Number(id)
+    if (Number.isSafeInteger(numericId)) {
+      return numericId
+    }
+
+    return /^\d+$/.test(String(id)) ? this.datastore.int(String(id)) : String(id)
+  }
+
+  /**
+   * Convert a numeric id allocated by Datastore into the id handed to LoopBack.
+   *
+   * Datastore ids are 64-bit integers, which may come back as a {@link Long} or a string. Ids that
+   * fit in a safe JavaScript integer are returned as numbers, larger ones as strings so no
+   * precision is lost.
+   *
+   * @param {number | Long | string} id - the allocated id.
+   * @returns {number | string}
+   */
+  private static normalizeId(id: number | Long | string): number | string {
+    if (id === undefined || id === null) {
+      return null
+    }
+
+    const value = id.toString()
+    const numericId = Number(value)
+    return Number.isSafeInteger(numericId) ? numericId : value
+  }
+
+  /**
+   * Get the LoopBack id of an {@link EntityKey}, which is either its name or its numeric id.
+   *
+   * @param {EntityKey} key - the key of a {@link GCPDataStoreEntity}.
+   * @returns {number | string}
+   */
+  private static getIdFromKey(key: EntityKey): number | string {
+    return key.name !== undefined ? key.name : GoogleCloudDatastore.normalizeId(key.id)
+  }
+
+  /**
+   * Create the {@link EntityKey} of the parent of a {@link GCPDataStoreEntity}.
+   *
+   * A model declares its parent in its settings, naming the parent model and the property holding
+   * the parent's id:
+   *
+   * @model({ settings: { googleCloudDatastore: { parent: { model: 'Order', property: 'orderId' } } } })
+   *
+   * Entities with the same parent belong to the same entity group, which is what allows strongly
+   * consistent ancestor queries and transactions spanning the group.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {String} parentId - id of the parent entity.
+   * @param {String} [namespace] - namespace the key belongs to, see {@link getNamespace}.
+   * @returns {EntityKey | undefined} - undefined if the model has no parent or no parent id given.
+   */
+  private createParentKey(model: string, parentId: string, namespace?: string): EntityKey {
+    const { parent } = this.getModelSettings(model)
+
+    if (!parent || parentId === undefined || parentId === null) {
+      return undefined
+    }
+
+    return this.createEntityKeyWithId(parent.model, parentId, namespace)
+  }
+
+  /**
+   * Get the id of the parent entity from an object holding the model's properties, such as the
+   * data being written or a where filter.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} properties - property/value pairs that may contain the parent id.
+   * @returns {String | undefined}
+   */
+  private getParentId(model: string, properties?: object): string | undefined {
+    const { parent } = this.getModelSettings(model)
+    return parent && properties ? properties[parent.property] : undefined
+  }
+
+  /**
+   * Get the parent id a where clause compares with, if it compares with a single value.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} where - the where clause.
+   * @returns {String | undefined}
+   */
+  private getScalarParentId(model: string, where: Filter): string | undefined {
+    const parentId = this.getParentId(model, where)
+    return GoogleCloudDatastore.isScalar(parentId) ? parentId : undefined
+  }
+
+  /**
+   * Resolve the full {@link EntityKey} path of an existing {@link GCPDataStoreEntity}.
+   *
+   * Models without a parent only need their id. For models with a parent, the parent id is
+   * required to build the path. When it is not known, the keys of the Kind are looked up with a
+   * keys-only query to find the one with a matching id. That scan grows with the size of the Kind,
+   * so pass the parent id property along with the id whenever possible.
+   *
+   * The scan runs within the transaction of the options, if any, so the key it finds is read in
+   * the same snapshot as the entity. Ids allocated by Datastore are only unique under a parent, so
+   * the scan fails with a 400 AMBIGUOUS_ID error rather than picking one of several entities.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {String} id - id of the existing entity.
+   * @param {String} [parentId] - id of the parent entity, if known.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Promise<EntityKey>}
+   */
+  private async resolveEntityKey(
+    model: string,
+    id: string,
+    parentId?: string,
+    options?: ConnectorOptions,
+  ): Promise<EntityKey> {
+    const namespace = this.getNamespace(model, options)
+    const { parent } = this.getModelSettings(model)
+
+    if (!parent || (parentId !== undefined && parentId !== null)) {
+      const parentKey = this.createParentKey(model, parentId, namespace)
+      return this.createEntityKeyWithId(model, id, namespace, parentKey)
+    }
+
+    const [key] = await this.findKeysById(model, [id], options)
+    return key || this.createEntityKeyWithId(model, id, namespace)
+  }
+
+  /**
+   * Find the keys of the entities of a model with a parent by their ids alone, with a keys-only
+   * query of the Kind, see {@link resolveEntityKey}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Array<String>} ids - ids of the entities.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Promise<Array<EntityKey>>} - the keys of the entities that exist, in the order of
+   *  the ids.
+   */
+  private async findKeysById(
+    model: string,
+    ids: Array<string>,
+    options?: ConnectorOptions,
+  ): Promise<Array<EntityKey>> {
+    const query = this.getClient(options)
+      .createQuery(this.getNamespace(model, options), this.getKind(model))
+      .select('__key__')
+    const [entities] = await query.run()
+    const keysById = new Map<string, Array<EntityKey>>()
+
+    for (const entity of entities) {
+      const key: EntityKey = entity[this.datastore.KEY]
+      const id = String(GoogleCloudDatastore.getIdFromKey(key))
+      keysById.set(id, [...(keysById.get(id) || []), key])
+    }
+
+    return ids
+      .map((id) => {
+        const matches = keysById.get(String(id)) || []
+        if (matches.length > 1) {
+          throw new DatastoreError(
+            400,
+            'AMBIGUOUS_ID',
+            `Several entities of model "${model}" have the id "${id}", pass the ` +
+              `"${this.getModelSettings(model).parent.property}" property along with the id to ` +
+              'tell them apart.',
+          )
+        }
+        return matches[0]
+      })
+      .filter((key) => key !== undefined)
+  }
+
+  /**
+   * Create the {@link EntityKey} used by an ancestor filter.
+   *
+   * {
+   *   where: {
+   *     ancestor: { model: 'Order', id: '5629499534213120' }
+   *   }
+   * }
+   *
+   * @param {Object} ancestor - the model and id of the ancestor entity.
+   * @param {String} [namespace] - namespace the key belongs to, see {@link getNamespace}.
+   * @returns {EntityKey}
+   */
+  private createAncestorKey(ancestor: AncestorFilter, namespace?: string): EntityKey {
+    return this.createEntityKeyWithId(ancestor.model, ancestor.id, namespace)
+  }
+
+  /**
+   * Creates valid {@link GCPDataStoreEntity} that is ready to be saved to a specified Kind.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation, whose
+   *  property definitions drive the conversion of the values, see {@link toDatastoreProperties}.
+   * @param {object} entityProperties - an object literal containing properties and values
+   *  for a given instance of an {@link LoopBackEntity}. These properties and their values will be
+   *  persisted into the new or existing {@link GCPDataStoreEntity}.
+   * @param {EntityKey} key - a valid entity Key used to organize groups of
+   *  {@link GCPDataStoreEntity}.
+   * @returns {{data: object & {createdAt: Date; updatedAt: null}; key: entity.Key;
+   *  excludeFromIndexes: Array<string>}}
+   */
+  private createEntity(
+    model: string,
+    entityProperties: object,
+    key: EntityKey,
+  ): GCPDataStoreEntity {
+    const data = Object.assign(this.toDatastoreProperties(model, entityProperties), {
+      createdAt: new Date(),
+      updatedAt: null,
+    })
+
+    const versionColumn = this.getVersionColumn(model)
+    if (versionColumn && (data[versionColumn] === undefined || data[versionColumn] === null)) {
+      data[versionColumn] = 1
+    }
+
+    // stamped so that queries can filter on it, missing properties are not indexed
+    if (this.getModelSettings(model).softDelete) {
+      data['deletedAt'] = null
+    }
+
+    return {
+      key,
+      data,
+      excludeFromIndexes: this.getExcludedIndexes(model, data),
+    }
+  }
+
+  /**
+   * Apply new values to the data of an existing {@link GCPDataStoreEntity}, stamping the
+   * updatedAt timestamp and incrementing the version of versioned models, see
+   * {@link checkVersion}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation, whose
+   *  property definitions drive the conversion of the values, see {@link toDatastoreProperties}.
+   * @param {EntityKey} key - the key of the existing entity.
+   * @param {Object} existingProperties - the data currently persisted for the entity.
+   * @param {Object} changes - the property/value pairs to be written.
+   * @param {boolean} merge - whether to keep the existing properties missing from the changes,
+   *  as opposed to replacing them. The createdAt timestamp stamped by {@link createEntity} is kept
+   *  either way.
+   * @returns {GCPDataStoreEntity} - the entity to persist.
+   */
+  private applyChanges(
+    model: string,
+    key: EntityKey,
+    existingProperties: { [key: string]: any },
+    changes: object,
+    merge: boolean,
+  ): GCPDataStoreEntity {
+    const existing = { ...existingProperties }
+    delete existing.id
+    const base = merge ? existing : { createdAt: existing.createdAt }
+    // existing values are converted again so those read as LoopBack values keep their Datastore type
+    const data = Object.assign(this.toDatastoreProperties(model, Object.assign(base, changes)), {
+      updatedAt: new Date(),
+    })
+
+    const versionColumn = this.getVersionColumn(model)
+    if (versionColumn) {
+      data[versionColumn] = this.checkVersion(model, key, existing, changes) + 1
+    }
+
+    // replacing an entity keeps it soft deleted, or not, see {@link softDeleteEntities}
+    if (this.getModelSettings(model).softDelete && data['deletedAt'] === undefined) {
+      data['deletedAt'] = existing.deletedAt ?? null
+    }
+
+    return { key, data, excludeFromIndexes: this.getExcludedIndexes(model, data) }
+  }
+
+  /**
+   * Get the column of the version property of a model that opted into optimistic locking, or
+   * undefined for other models. The version property is named in the model settings:
+   *
+   * @model({ settings: { googleCloudDatastore: { versionProperty: 'version' } } })
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @returns {String | undefined}
+   */
+  private getVersionColumn(model: string): string | undefined {
+    const { versionProperty } = this.getModelSettings(model)
+    return versionProperty
+      ? GoogleCloudDatastore.getColumnName(this.getPropertyDefinitions(model), versionProperty)
+      : undefined
+  }
+
+  /**
+   * Check that the version a write is based on, i.e. the version property of the changes, is the
+   * version currently persisted. Entities are read and written in a transaction, so an entity
+   * written by someone else since it was read by the caller fails the write rather than having
+   * its changes overwritten. Changes without a version are not checked.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {EntityKey} key - the key of the existing entity.
+   * @param {Object} existing - the data currently persisted for the entity.
+   * @param {Object} changes - the property/value pairs to be written.
+   * @returns {number} - the persisted version.
+   * @throws {DatastoreError} - a 409 VERSION_CONFLICT when the versions differ.
+   */
+  private checkVersion(
+    model: string,
+    key: EntityKey,
+    existing: { [key: string]: any },
+    changes: object,
+  ): number {
+    const { versionProperty } = this.getModelSettings(model)
+    const stored = Number(existing[this.getVersionColumn(model)] ?? existing[versionProperty] ?? 0)
+    const expected = changes[versionProperty]
+
+    if (expected !== undefined && expected !== null && Number(expected) !== stored) {
+      throw new DatastoreError(
+        409,
+        'VERSION_CONFLICT',
+        `Could not update ${model} with id ${key.name ?? key.id}. It was changed to version ` +
+          `${stored} since version ${expected} was read.`,
+      )
+    }
+
+    return stored
+  }
+
+  /**
+   * Whether the reads of a model skip soft deleted entities. Models opt into soft deletes in their
+   * settings, their entities are then marked with a deletedAt timestamp rather than deleted, see
+   * {@link softDeleteEntities}:
+   *
+   * @model({ settings: { googleCloudDatastore: { softDelete: true } } })
+   *
+   * Soft deleted entities are read with the `withDeleted` option, e.g.
+   * `repository.find(filter, { withDeleted: true })`.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {boolean}
+   */
+  private excludesDeleted(model: string, options?: ConnectorOptions): boolean {
+    return !!this.getModelSettings(model).softDelete && !options?.withDeleted
+  }
+
+  /**
+   * Check whether an entity has been soft deleted, see {@link excludesDeleted}.
+   *
+   * @param {Object} [entity] - the entity, as read from Datastore.
+   * @returns {boolean}
+   */
+  private static isDeleted(entity?: { [key: string]: any }): boolean {
+    return entity?.deletedAt !== undefined && entity?.deletedAt !== null
+  }
+
+  /**
+   * Refuse to write to, or return, a soft deleted entity the upserts found by id, see
+   * {@link excludesDeleted}. Creating the entity again would overwrite the deleted one, which has
+   * to be kept until it is purged, and writing to it would leave it deleted.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {EntityKey} key - the key of the entity.
+   * @param {Object} [existing] - the entity, as read from Datastore.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @throws {DatastoreError} - a 409 ENTITY_DELETED when the entity is soft deleted.
+   */
+  private checkNotDeleted(
+    model: string,
+    key: EntityKey,
+    existing: GCPDataStoreEntity | undefined,
+    options?: ConnectorOptions,
+  ) {
+    if (this.excludesDeleted(model, options) && GoogleCloudDatastore.isDeleted(existing)) {
+      throw new DatastoreError(
+        409,
+        'ENTITY_DELETED',
+        `${model} with id ${key.name ?? key.id} is deleted. Restore it with the withDeleted ` +
+          'option, or purge it, before writing it again.',
+      )
+    }
+  }
+
+  /**
+   * Get the paths of the properties a model excludes from the built-in indexes, in the format of
+   * the excludeFromIndexes option of {@link Datastore.save}. A property is excluded by its
+   * definition:
+   *
+   * @property({ type: 'string', googleCloudDatastore: { index: false } })
+   *
+   * Excluded properties can't be used in filters or orders, but they don't count towards the
+   * 1500 bytes limit of indexed strings and writing them is cheaper. Properties of nested models
+   * are excluded the same way, e.g. 'address.street' or 'lines[].description'.
+   *
+   * The paths depend on the data being saved, the client fails on a path through a property the
+   * entity doesn't hold, e.g. 'address.*' without an address or 'lines[].*' when lines is null.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} data - the Datastore properties of the entity being saved.
+   * @returns {Array<string>}
+   */
+  private getExcludedIndexes(model: string, data: object): Array<string> {
+    return GoogleCloudDatastore.collectExcludedIndexes(this.getPropertyDefinitions(model), data, '')
+  }
+
+  /**
+   * Collect the excluded paths of {@link getExcludedIndexes} for some property definitions.
+   *
+   * Paths through an array of nested models apply to each of its items, so only the paths every
+   * item holds are kept.
+   *
+   * @param {PropertyDefinitions} definitions - the definitions of the properties.
+   * @param {Object} data - the Datastore properties holding the values of the definitions.
+   * @param {String} prefix - the path of the object holding the properties, e.g. 'address.'.
+   * @returns {Array<string>}
+   */
+  private static collectExcludedIndexes(
+    definitions: PropertyDefinitions,
+    data: object,
+    prefix: string,
+  ): Array<string> {
+    const paths: Array<string> = []
+
+    for (const name of Object.keys(definitions)) {
+      const definition = definitions[name]
+      const isArray = Array.isArray(definition.type)
+      const type = isArray ? definition.type[0] : definition.type
+      // array values are excluded one by one with the [] syntax
+      const column = GoogleCloudDatastore.getColumnName(definitions, name)
+      const path = `${prefix}${column}${isArray ? '[]' : ''}`
+      const nestedDefinitions = type?.definition?.properties
+      const value = data[column]
+
+      if (value === undefined) {
+        continue
+      }
+
+      if (definition.googleCloudDatastore?.index === false) {
+        paths.push(path)
+        // the properties of an embedded entity are indexed on their own
+        const holdsEntities = isArray
+          ? Array.isArray(value)
+          : GoogleCloudDatastore.isEmbeddedEntity(value)
+        if (
+          holdsEntities &&
+          (nestedDefinitions || GoogleCloudDatastore.getTypeName(type) === 'object')
+        ) {
+          paths.push(`${path}.*`)
+        }
+      } else if (nestedDefinitions && !isArray && GoogleCloudDatastore.isEmbeddedEntity(value)) {
+        paths.push(
+          ...GoogleCloudDatastore.collectExcludedIndexes(nestedDefinitions, value, `${path}.`),
+        )
+      } else if (nestedDefinitions && Array.isArray(value) && value.length) {
+        const itemPaths = value.map((item) =>
+          GoogleCloudDatastore.isEmbeddedEntity(item)
+            ? GoogleCloudDatastore.collectExcludedIndexes(nestedDefinitions, item, `${path}.`)
+            : [],
+        )
+        paths.push(...itemPaths[0].filter((p) => itemPaths.every((other) => other.includes(p))))
+      }
+    }
+
+    return paths
+  }
+
+  /**
+   * Determine whether a Datastore value is saved as an embedded entity, i.e. is a plain object
+   * rather than a date, a buffer, a key or another value wrapped by the client.
+   *
+   * @param {*} value - the Datastore value.
+   * @returns {boolean}
+   */
+  private static isEmbeddedEntity(value: any): boolean {
+    if (value === null || typeof value !== 'object') {
+      return false
+    }
+
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null
+  }
+
+  /**
+   * Get the property definitions of a LoopBack model.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @returns {PropertyDefinitions} - the definitions by property name, empty for unknown models.
+   */
+  private getPropertyDefinitions(model: string): PropertyDefinitions {
+    return this.getModelDefinition(model)?.properties || {}
+  }
+
+  /**
+   * Get the definition of a property of a LoopBack model, following the definitions of nested
+   * models for paths such as 'address.city'.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {String} property - name or dotted path of the property.
+   * @returns {PropertyDefinition | undefined}
+   */
+  private getPropertyDefinition(model: string, property: string): PropertyDefinition | undefined {
+    let definitions = this.getPropertyDefinitions(model)
+    let definition: PropertyDefinition | undefined
+
+    for (const name of property.split('.')) {
+      definition = definitions?.[name]
+      const type = Array.isArray(definition?.type) ? definition.type[0] : definition?.type
+      definitions = type?.definition?.properties
+    }
+
+    return definition
+  }
+
+  /**
+   * Get the lower case name of a LoopBack property type, which may be declared as a constructor,
+   * e.g. Date, or as a name, e.g. 'date'.
+   *
+   * @param {*} type - the type of a property definition.
+   * @returns {String} - the type name, 'array' for array types.
+   */
+  private static getTypeName(type: any): string {
+    if (Array.isArray(type)) {
+      return 'array'
+    }
+
+    return String(typeof type === 'function' ? type.name : type).toLowerCase()
+  }
+
+  /**
+   * Convert LoopBack property values into the values persisted in Datastore, according to the
+   * property definitions of the model:
+   *
+   * - Date properties are stored as timestamps, so they can be filtered and ordered as dates.
+   * - Number properties are stored as integers or doubles as Datastore infers from the value,
+   *   unless the definition sets googleCloudDatastore: { dataType: 'integer' | 'double' }.
+   * - Buffer properties are stored as blobs.
+   * - GeoPoint properties are stored as geographical points.
+   * - Objects are stored as embedded entities, converting the values of nested models.
+   *
+   * Properties without definition are stored as they are.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} properties - the property/value pairs of a LoopBack entity.
+   * @returns {Object} - a new object with the converted values.
+   */
+  private toDatastoreProperties(model: string, properties: object): object {
+    return this.convertProperties(
+      properties,
+      this.getPropertyDefinitions(model),
+      (value, definition) => this.toDatastoreValue(value, definition?.type, definition),
+      true,
+    )
+  }
+
+  /**
+   * Convert Datastore property values into the values of a LoopBack entity, the reverse of
+   * {@link toDatastoreProperties}. Properties are replaced in place so the entity keeps its
+   * {@link EntityKey}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} properties - the property/value pairs of a {@link GCPDataStoreEntity}.
+   * @returns {Object} - the same object, with converted values.
+   */
+  private fromDatastoreProperties<T extends object>(model: string, properties: T): T {
+    const converted = this.convertProperties(
+      properties,
+      this.getPropertyDefinitions(model),
+      (value, definition) => this.fromDatastoreValue(value, definition?.type),
+      false,
+    )
+
+    // column names mapped to other property names must not remain on the entity
+    for (const name of Object.keys(properties)) {
+      delete properties[name]
+    }
+    return Object.assign(properties, converted)
+  }
+
+  /**
+   * Apply a conversion to every value of an object, passing the definition of its property, and
+   * map the property names to the column names persisted in Datastore or back. A property is
+   * persisted under another name by its definition, e.g. to share a Kind with another service:
+   *
+   * @property({ type: 'date', googleCloudDatastore: { columnName: 'created_on' } })
+   *
+   * @param {Object} properties - the property/value pairs to convert.
+   * @param {PropertyDefinitions} [definitions] - the definitions of the properties.
+   * @param {Function} convert - the conversion of a single value.
+   * @param {boolean} toColumns - whether the keys of properties are property names to map to
+   *  column names, as opposed to column names to map to property names.
+   * @returns {Object} - a new object with the converted values.
+   */
+  private convertProperties(
+    properties: object,
+    definitions: PropertyDefinitions | undefined,
+    convert: (value: any, definition?: PropertyDefinition) => any,
+    toColumns: boolean,
+  ): object {
+    const propertyNames = toColumns ? undefined : GoogleCloudDatastore.getPropertyNames(definitions)
+    const converted = {}
+
+    for (const name of Object.keys(properties)) {
+      const property = toColumns ? name : propertyNames.get(name) ?? name
+      const column = toColumns ? GoogleCloudDatastore.getColumnName(definitions, name) : property
+      converted[column] = convert(properties[name], definitions?.[property])
+    }
+
+    return converted
+  }
+
+  /**
+   * Get the column name a property is persisted under, see {@link convertProperties}.
+   *
+   * @param {PropertyDefinitions} [definitions] - the definitions of the properties.
+   * @param {String} property - the property name.
+   * @returns {String}
+   */
+  private static getColumnName(definitions: PropertyDefinitions | undefined, property: string) {
+    return definitions?.[property]?.googleCloudDatastore?.columnName || property
+  }
+
+  /**
+   * Get the property names of the columns mapped to another name, see {@link convertProperties}.
+   *
+   * @param {PropertyDefinitions} [definitions] - the definitions of the properties.
+   * @returns {Map<string, string>} - the property names by column name.
+   */
+  private static getPropertyNames(definitions?: PropertyDefinitions): Map<string, string> {
+    const propertyNames = new Map<string, string>()
+    for (const property of Object.keys(definitions || {})) {
+      const column = GoogleCloudDatastore.getColumnName(definitions, property)
+      if (column !== property) {
+        propertyNames.set(column, property)
+      }
+    }
+    return propertyNames
+  }
+
+  /**
+   * Get the path of the column a property is persisted under, following the definitions of
+   * nested models for paths such as 'address.city', see {@link convertProperties}. The id is read
+   * from the {@link EntityKey}, so it maps to Datastore's __key__ pseudo-property, e.g. when
+   * ordering by id.
+   *
+   * @param {PropertyDefinitions} [definitions] - the definitions of the properties.
+   * @param {String} propertyPath - name or dotted path of the property.
+   * @returns {String}
+   */
+  private static toColumnPath(
+    definitions: PropertyDefinitions | undefined,
+    propertyPath: string,
+  ): string {
+    if (propertyPath === 'id') {
+      return '__key__'
+    }
+
+    return propertyPath
+      .split('.')
+      .map((name) => {
+        const column = GoogleCloudDatastore.getColumnName(definitions, name)
+        const type = definitions?.[name]?.type
+        definitions = (Array.isArray(type) ? type[0] : type)?.definition?.properties
+        return column
+      })
+      .join('.')
+  }
+
+  /**
+   * Get the path of the column a property of a model is persisted under, see
+   * {@link toColumnPath}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {String} propertyPath - name or dotted path of the property.
+   * @returns {String}
+   */
+  private getColumnPath(model: string, propertyPath: string): string {
+    return GoogleCloudDatastore.toColumnPath(this.getPropertyDefinitions(model), propertyPath)
+  }
+
+  /**
+   * Convert a single LoopBack value into a Datastore value, see {@link toDatastoreProperties}.
+   *
+   * @param {*} value - the LoopBack value.
+   * @param {*} type - the type of its property definition, if any.
+   * @param {PropertyDefinition} [definition] - the property definition, if any.
+   * @returns {*}
+   */
+  private toDatastoreValue(value: any, type: any, definition?: PropertyDefinition): any {
+    if (value === null || value === undefined) {
+      return value
+    }
+
+    // filters compare single values with the items of array properties
+    if (Array.isArray(type)) {
+      return Array.isArray(value)
+        ? value.map((item) => this.toDatastoreValue(item, type[0], definition))
+        : this.toDatastoreValue(value, type[0], definition)
+    }
+
+    switch (GoogleCloudDatastore.getTypeName(type)) {
+      case 'date':
+        return value instanceof Date ? value : new Date(value)
+      case 'number': {
+        const dataType = definition?.googleCloudDatastore?.dataType
+        if (dataType === 'integer') return this.datastore.int(Number(value))
+        if (dataType === 'double') return this.datastore.double(Number(value))
+        return typeof value === 'number' ? value : Number(value)
+      }
+      case 'buffer':
+        if (Buffer.isBuffer(value)) return value
+        // a Buffer serialized to JSON, e.g. { type: 'Buffer', data: [104, 105] }
+        return Buffer.from(value.type === 'Buffer' ? value.data : value)
+      case 'geopoint':
+        if (value instanceof entity.GeoPoint) return value
+        return this.datastore.geoPoint({
+          latitude: value.lat ?? value.latitude,
+          longitude: value.lng ?? value.longitude,
+        })
+      default: {
+        const nestedDefinitions = type?.definition?.properties
+        return nestedDefinitions && typeof value === 'object'
+          ? this.convertProperties(
+              value,
+              nestedDefinitions,
+              (nestedValue, nestedDefinition) =>
+                this.toDatastoreValue(nestedValue, nestedDefinition?.type, nestedDefinition),
+              true,
+            )
+          : value
+      }
+    }
+  }
+
+  /**
+   * Convert a single Datastore value into a LoopBack value, see {@link fromDatastoreProperties}.
+   *
+   * @param {*} value - the Datastore value.
+   * @param {*} type - the type of its property definition, if any.
+   * @returns {*}
+   */
+  private fromDatastoreValue(value: any, type: any): any {
+    if (value === null || value === undefined) {
+      return value
+    }
+
+    if (Array.isArray(value)) {
+      const itemType = Array.isArray(type) ? type[0] : type
+      return value.map((item) => this.fromDatastoreValue(item, itemType))
+    }
+
+    if (value instanceof entity.Int || value instanceof entity.Double) {
+      return value.valueOf()
+    }
+
+    switch (GoogleCloudDatastore.getTypeName(type)) {
+      // dates written before timestamps were used are stored as strings, and projection queries
+      // return timestamps as microseconds
+      case 'date':
+        if (value instanceof Date) return value
+        return new Date(typeof value === 'number' ? value / 1000 : value)
+      case 'number':
+        return Number(value)
+      case 'geopoint':
+        return value.latitude !== undefined ? { lat: value.latitude, lng: value.longitude } : value
+      default: {
+        const nestedDefinitions = type?.definition?.properties
+        return nestedDefinitions && typeof value === 'object'
+          ? this.convertProperties(
+              value,
+              nestedDefinitions,
+              (nestedValue, nestedDefinition) =>
+                this.fromDatastoreValue(nestedValue, nestedDefinition?.type),
+              false,
+            )
+          : value
+      }
+    }
+  }
+
+  /**
+   * Convert the id of an {@link EntityKey} into the type of the model's id property, so a model
+   * with a string id gets string ids even for numeric keys.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {EntityKey} key - the key of a {@link GCPDataStoreEntity}.
+   * @returns {number | string}
+   */
+  private getModelId(model: string, key: EntityKey): number | string {
+    const id = GoogleCloudDatastore.getIdFromKey(key)
+    const type = GoogleCloudDatastore.getTypeName(this.getIdPropertyDefinition(model)?.type)
+
+    if (type === 'string') {
+      return String(id)
+    }
+
+    return type === 'number' && Number.isSafeInteger(Number(id)) ? Number(id) : id
+  }
+
+  /**
+   * Create new {@link GCPDataStoreEntity}.
+   *
+   * When successful, it will execute the callback with the value of the new
+   * {@link GCPDataStoreEntity}'s id. LoopBack will substitute the id property on the
+   * {@link LoopBackEntity}'s model definition with the result of the callback. Loopback does not
+   * take any further information from the Datastore response, instead it assumes the persistence
+   * later won't modify the original values used to form the persistence request and just appends
+   * the id to the previously undefined id property.
+   *
+   * If the data already contains an id, it is used to build the key instead of letting Datastore
+   * allocate one, and the entity is inserted so an existing {@link GCPDataStoreEntity} with the
+   * same id is never overwritten.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} data - the property/value pairs to be created
+   * @param {Object} options - configure network options.
+   * @param {Function} [callback] - LoopBack relies on this being a callback and not a promise
+   *  to bubble up the result.
+   * @returns Promise<void>
+   */
+  async create(
+    model: string,
+    data: object,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    try {
+      const transaction = GoogleCloudDatastore.getTransaction(options)
+      const namespace = this.getNamespace(model, options)
+      const parentKey = this.createParentKey(model, this.getParentId(model, data), namespace)
+      // @ts-ignore
+      const suppliedId = data.id
+
+      // Client supplied ids, e.g. slugs, UUIDs or identifiers imported from another system
+      if (suppliedId !== undefined && suppliedId !== null) {
+        // @ts-ignore
+        delete data.id
+        const key = this.createEntityKeyWithId(model, suppliedId, namespace, parentKey)
+        await this.saveEntities([this.createEntity(model, data, key)], 'insert', options)
+        callback(null, suppliedId)
+        return
+      }
+
+      this.checkIdCanBeAllocated(model)
+
+      // Transactional saves are only sent on commit, so the id has to be allocated up front
+      if (transaction) {
+        const incompleteKey = this.createEntityKey(model, namespace, parentKey)
+        const [keys] = await transaction.allocateIds(incompleteKey, 1)
+        transaction.save(this.createEntity(model, data, keys[0]))
+        callback(null, GoogleCloudDatastore.normalizeId(keys[0].id))
+        return
+      }
+
+      const key = this.createEntityKey(model, namespace, parentKey)
+      const entity = this.createEntity(model, data, key)
+      const result = await this.withRetry(options, RETRYABLE_INSERT_STATUSES, () =>
+        this.datastore.save(entity, options),
+      )
+      const id = GoogleCloudDatastore.extractIdFromFirstCommitResponse(result)
+      callback(null, id)
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Create several {@link GCPDataStoreEntity} at once.
+   *
+   * Ids are allocated in bulk for the entities that don't have one yet, see {@link allocateKeys},
+   * then the entities are inserted in batches, see {@link writeInBatches}.
+   *
+   * This method is not part of the LoopBack connector contract: the createAll method of LoopBack
+   * repositories creates the entities one by one through {@link create}. Call it from a custom
+   * repository method through the datasource:
+   *
+   * const ids = await promisify(connector.createAll).call(connector, Order.modelName, orders, {})
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Array} data - the property/value pairs of every entity to be created
+   * @param {Object} options - configure network options.
+   * @param {Function} [callback] - called with the ids of the new entities, in the order of data.
+   * @returns Promise<void>
+   */
+  async createAll(
+    model: string,
+    data: Array<object>,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    try {
+      const keys = await this.allocateKeys(model, data, options)
+      // the ids create returns, supplied ids as they are and allocated ones normalized
+      const ids = data.map((properties, index) => {
+        // @ts-ignore
+        const suppliedId = properties.id
+        return suppliedId !== undefined && suppliedId !== null
+          ? suppliedId
+          : GoogleCloudDatastore.normalizeId(keys[index].id)
+      })
+      const entities = data.map((properties, index) => {
+        // @ts-ignore
+        delete properties.id
+        return this.createEntity(model, properties, keys[index])
+      })
+
+      await this.writeInBatches(
+        entities,
+        async (batch) => {
+          const response = await this.saveEntities(batch, 'insert', options)
+          return GoogleCloudDatastore.countMutations(response, batch.length)
+        },
+        options,
+      )
+
+      callback(null, ids)
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Build complete {@link EntityKey} objects for entities about to be created. Entities with a
+   * client supplied id keep it, the others get ids allocated with a single request per parent.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Array} data - the property/value pairs of every entity to be created.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Promise<Array<EntityKey>>} - the keys, in the order of data.
+   */
+  private async allocateKeys(
+    model: string,
+    data: Array<object>,
+    options?: ConnectorOptions,
+  ): Promise<Array<EntityKey>> {
+    const namespace = this.getNamespace(model, options)
+    const keys: Array<EntityKey> = new Array(data.length)
+    const pendingByParent = new Map<string, { parentKey: EntityKey; indexes: Array<number> }>()
+
+    data.forEach((properties, index) => {
+      const parentKey = this.createParentKey(model, this.getParentId(model, properties), namespace)
+      // @ts-ignore
+      const suppliedId = properties.id
+
+      if (suppliedId !== undefined && suppliedId !== null) {
+        keys[index] = this.createEntityKeyWithId(model, suppliedId, namespace, parentKey)
+        return
+      }
+
+      this.checkIdCanBeAllocated(model)
+      const parentPath = parentKey ? parentKey.path.join('/') : ''
+      const pending = pendingByParent.get(parentPath) || { parentKey, indexes: [] }
+      pending.indexes.push(index)
+      pendingByParent.set(parentPath, pending)
+    })
+
+    for (const { parentKey, indexes } of pendingByParent.values()) {
+      const incompleteKey = this.createEntityKey(model, namespace, parentKey)
+      const [allocatedKeys] = await this.datastore.allocateIds(incompleteKey, indexes.length)
+      indexes.forEach((dataIndex, keyIndex) => {
+        keys[dataIndex] = allocatedKeys[keyIndex]
+      })
+    }
+
+    return keys
+  }
+
+  /**
+   * Given only one item was committed to the database, extract the id from that
+   * committed Entity.
+   *
+   * @param {T} response - a response describing what was committed to the database.
+   * @returns {number | string | null} - if the {@link GCPDataStoreEntity} has a valid id,
+   *  i.e. it has been persisted to the database at some point, it will not return null. See
+   *  {@link normalizeId} for the type of the id.
+   */
+  private static extractIdFromFirstCommitResponse<T extends CommitResponse>(
+    response: T,
+  ): number | string | null {
+    const firstCommitResult = response[0]
+    const path = firstCommitResult?.mutationResults[0]?.key?.path
+    // the last element of the path belongs to the entity itself, the others to its ancestors
+    return GoogleCloudDatastore.normalizeId(path?.[path.length - 1]?.id)
+  }
+
+  /**
+   * Complete the {@link GCPDataStoreEntity} objects by making sure they have an id property
+   * with their unique identifiers attached, and convert their values into LoopBack values, see
+   * {@link fromDatastoreProperties}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Array} entities - the initial list of entities.
+   * @returns Array<GCPDataStoreEntity> - list of processed entities with the id key and value.
+   */
+  addIdentifierToEachEntity(model: string, entities): Array<GCPDataStoreEntity> {
+    return entities.map((entity) => {
+      const id = this.getModelId(model, entity[this.datastore.KEY])
+      return Object.assign(this.fromDatastoreProperties(model, entity), { id })
+    })
+  }
+
+  /**
+   * Translate an error thrown by the Datastore client into a {@link DatastoreError} LoopBack can
+   * turn into an HTTP response. Errors without a known gRPC status are reported as 500 so that
+   * every failure reaching a callback carries a `statusCode` and a `code`.
+   *
+   * A FAILED_PRECONDITION caused by a missing composite index is reported separately, its message
+   * points at the index.yaml generated on migration, see {@link writeIndexFile}.
+   *
+   * @param {Error} error - the error thrown by the client or by the connector itself.
+   * @returns {DatastoreError}
+   */
+  private static toLoopBackError(error: any): DatastoreError {
+    if (error instanceof DatastoreError) {
+      return error
+    }
+
+    const message = error?.details || error?.message || String(error)
+
+    switch (error?.code) {
+      case GrpcStatus.NOT_FOUND:
+        return new DatastoreError(404, 'ENTITY_NOT_FOUND', message, error)
+      case GrpcStatus.ALREADY_EXISTS:
+        return new DatastoreError(409, 'ENTITY_ALREADY_EXISTS', message, error)
+      case GrpcStatus.ABORTED:
+        return new DatastoreError(409, 'TRANSACTION_CONFLICT', message, error)
+      case GrpcStatus.FAILED_PRECONDITION:
+        return /index/i.test(message)
+          ? new DatastoreError(
+              500,
+              'MISSING_INDEX',
+              `${message.replace(/\.$/, '')}. Deploy the composite indexes of index.yaml with ` +
+                '"gcloud datastore indexes create index.yaml".',
+              error,
+            )
+          : new DatastoreError(400, 'FAILED_PRECONDITION', message, error)
+      case GrpcStatus.INVALID_ARGUMENT:
+        return new DatastoreError(400, 'INVALID_ARGUMENT', message, error)
+      case GrpcStatus.UNAUTHENTICATED:
+        return new DatastoreError(401, 'UNAUTHENTICATED', message, error)
+      case GrpcStatus.PERMISSION_DENIED:
+        return new DatastoreError(403, 'PERMISSION_DENIED', message, error)
+      case GrpcStatus.RESOURCE_EXHAUSTED:
+        return new DatastoreError(429, 'RESOURCE_EXHAUSTED', message, error)
+      case GrpcStatus.UNAVAILABLE:
+        return new DatastoreError(503, 'UNAVAILABLE', message, error)
+      case GrpcStatus.DEADLINE_EXCEEDED:
+        return new DatastoreError(504, 'DEADLINE_EXCEEDED', message, error)
+      default:
+        return new DatastoreError(500, 'INTERNAL_ERROR', message, error)
+    }
+  }
+
+  /**
+   * Find a single {@link GCPDataStoreEntity} using its id.
+   *
+   * The underlying Google Cloud Datastore API allows the sending of multiple keys to retrieve
+   * multiple {@link GCPDataStoreEntity}, but this method name has to map to a LoopBack repository
+   * method that only retrieves a single {@link GCPDataStoreEntity} so that's how this method
+   * is implemented.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {String} id - The Entity id
+   * @param {Object} [options] - the options object, used to read within a transaction.
+   * @param {String} [parentId] - id of the parent entity, see {@link resolveEntityKey}.
+   */
+  async findById(
+    model: string,
+    id: string,
+    options?: ConnectorOptions,
+    parentId?: string,
+  ): Promise<Array<GCPDataStoreEntity>> {
+    const key = await this.resolveEntityKey(model, id, parentId, options)
+    const entities = await this.getClient(options).get(key)
+
+    if (
+      !entities[0] ||
+      (this.excludesDeleted(model, options) && GoogleCloudDatastore.isDeleted(entities[0]))
+    ) {
+      return []
+    }
+
+    return this.addIdentifierToEachEntity(model, entities)
+  }
+
+  /**
+   * Get all entities for a given Kind.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} [options] - the options object, used to read within a transaction.
+   */
+  private async getAllEntity(model, options?: ConnectorOptions) {
+    const namespace = this.getNamespace(model, options)
+    let query = this.getClient(options).createQuery(namespace, this.getKind(model))
+    if (this.excludesDeleted(model, options)) {
+      query = query.filter('deletedAt', '=', null)
+    }
+    const [entities, info] = await query.run()
+    GoogleCloudDatastore.setQueryInfo(options, info)
+    return this.addIdentifierToEachEntity(model, entities)
+  }
+
+  /**
+   * Helper method that returns true if it's not an array.
+   *
+   * @param valueToCheck - item to check.
+   * @returns {boolean} - returns true if not an array and false if it's an array.
+   */
+  private static notAnArray(valueToCheck: any): boolean {
+    return !Array.isArray(valueToCheck)
+  }
+
+  /**
+   * Build a valid GQL query for the Google Datastore Node.js api.
+   *
+   * https://googleapis.dev/nodejs/datastore/latest/index.html
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} filters - the filter object containing filter conditions.
+   * @param {QueryBranch} branch - the property filters of the query, see
+   *  {@link compileWhereFilter}.
+   * @param {Object} [options] - the options object, used to query within a transaction.
+   */
+  private buildQuery(
+    model: string,
+    filters,
+    branch: QueryBranch,
+    options?: ConnectorOptions,
+  ): Query {
+    const { where, order, limit, skip, fields, startCursor, endCursor } = filters
+
+    // part of the branch, so that projections look for a composite index including it
+    if (this.excludesDeleted(model, options)) {
+      branch = [...branch, { property: 'deletedAt', operator: '=', value: null }]
+    }
+
+    const namespace = this.getNamespace(model, options)
+    let query = this.getClient(options).createQuery(namespace, this.getKind(model))
+
+    // restrict the results to descendants of an entity, e.g. the line items of an order
+    if (where && where.ancestor) {
+      query = query.hasAncestor(this.createAncestorKey(where.ancestor, namespace))
+    }
+
+    for (const { property, operator, value } of branch) {
+      query = query.filter(property, operator, value)
+    }
+
+    // determine if it's ASC or DESC and return the JS object matching that order
+    for (const [property, orderingObject] of GoogleCloudDatastore.parseOrder(order)) {
+      query = query.order(this.getColumnPath(model, property), orderingObject)
+    }
+
+    // how many entities should be returned
+    if (limit) {
+      query = query.limit(limit)
+    }
+
+    // how many entities to skip for pagination
+    if (skip) {
+      query = query.offset(skip)
+    }
+
+    // where to start and end reading for cursor pagination, see getResultsWithQuery
+    if (startCursor) {
+      query = query.start(startCursor)
+    }
+
+    if (endCursor) {
+      query = query.end(endCursor)
+    }
+
+    // which fields on an entity should be returned, when the indexes can answer a projection.
+    // Otherwise the entities are trimmed once read, see selectFields
+    const selected = this.getSelectedProperties(model, fields)
+    if (selected && this.canProject(model, selected, branch, filters)) {
+      query = query.select(
+        selected.length
+          ? selected.map((property) => this.getColumnPath(model, property))
+          : '__key__',
+      )
+    }
+
+    return query
+  }
+
+  /**
+   * Get the properties selected by the fields of a LoopBack filter, which can be an array of
+   * property names, e.g. ['name'], an object of properties to include, e.g. { name: true }, or an
+   * object of properties to exclude, e.g. { emails: false }. The id is not listed since it is
+   * read from the {@link EntityKey}, it is always returned.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Array | Object} [fields] - the fields of the filter.
+   * @returns {Array<string> | undefined} - undefined when every property is selected.
+   */
+  private getSelectedProperties(model: string, fields?: any): Array<string> | undefined {
+    if (!fields) {
+      return undefined
+    }
+
+    const names = Array.isArray(fields) ? fields : Object.keys(fields)
+    const included = Array.isArray(fields) ? fields : names.filter((name) => fields[name])
+    if (included.length) {
+      return included.filter((name) => name !== 'id')
+    }
+
+    const excluded = names.filter((name) => !fields[name])
+    if (!excluded.length) {
+      return undefined
+    }
+
+    return Object.keys(this.getPropertyDefinitions(model)).filter(
+      (name) => name !== 'id' && !excluded.includes(name),
+    )
+  }
+
+  /**
+   * Determine whether the indexes can answer a projection query on the selected properties, see
+   * {@link buildQuery}. Datastore reads projected values from its indexes, so the properties
+   * have to be indexed single values, i.e. strings, numbers, booleans or dates that are not
+   * excluded from the indexes, see {@link getExcludedIndexes}, and they can't be compared for
+   * equality in the same query.
+   *
+   * A projection also skips the entities that don't have the projected properties, as they have no
+   * index entries, so it is only used when the query already skips them, i.e. when every projected
+   * property is filtered with an inequality or ordered by. Otherwise entities missing a selected
+   * property would be dropped from the results rather than returned without it.
+   *
+   * A projection on a single property ordered or filtered by that property alone is answered by
+   * its built-in index. Any other projection needs a composite index covering the projected,
+   * filtered and ordered properties, so it is only used when the model declares one, see
+   * {@link generateIndexYaml}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Array<string>} selected - the selected properties, see {@link getSelectedProperties}.
+   * @param {QueryBranch} branch - the property filters of the query.
+   * @param {Object} filters - the filter object, for its order and ancestor condition.
+   * @returns {boolean}
+   */
+  private canProject(
+    model: string,
+    selected: Array<string>,
+    branch: QueryBranch,
+    filters: Filter,
+  ): boolean {
+    // keys-only queries are always possible
+    if (!selected.length) {
+      return true
+    }
+
+    const projectable = ['string', 'number', 'boolean', 'date']
+    const definitions = this.getPropertyDefinitions(model)
+    const columns = selected.map((property) => this.getColumnPath(model, property))
+    const areIndexedValues = selected.every((property) => {
+      const definition = definitions[property]
+      return (
+        definition &&
+        definition.googleCloudDatastore?.index !== false &&
+        projectable.includes(GoogleCloudDatastore.getTypeName(definition.type))
+      )
+    })
+    const isComparedForEquality = branch.some(
+      ({ property, operator }) => operator === '=' && columns.includes(property),
+    )
+
+    if (!areIndexedValues || isComparedForEquality) {
+      return false
+    }
+
+    const ordering = GoogleCloudDatastore.parseOrder(filters.order)
+    const orderedColumns = ordering.map(([property]) => this.getColumnPath(model, property))
+    const filteredColumns = branch.map(({ property }) => property)
+    const areRequired = columns.every(
+      (column) => filteredColumns.includes(column) || orderedColumns.includes(column),
+    )
+
+    if (!areRequired) {
+      return false
+    }
+
+    const usedColumns = new Set([...columns, ...filteredColumns, ...orderedColumns])
+    if (usedColumns.size === 1 && !filters.where?.ancestor) {
+      return true
+    }
+
+    const ancestor =
+      !!filters.where?.ancestor || branch.some(({ property }) => property === '__key__')
+    const needed = Array.from(usedColumns).filter((column) => column !== '__key__')
+    const definition = this.getModelDefinition(model)
+    const indexes = GoogleCloudDatastore.getCompositeIndexes({
+      name: model,
+      properties: definitions,
+      settings: definition?.settings,
+    })
+
+    return indexes.some((index) => {
+      const indexed = index.properties.map(({ name }) => name)
+      return index.ancestor === ancestor && needed.every((column) => indexed.includes(column))
+    })
+  }
+
+  /**
+   * Trim the entities to the properties selected by the fields of a LoopBack filter, see
+   * {@link getSelectedProperties}, for the queries that couldn't be answered with a projection.
+   * The id is always kept.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Array<GCPDataStoreEntity>} entities - the entities, with their id attached.
+   * @param {Array | Object} [fields] - the fields of the filter.
+   * @returns {Array<GCPDataStoreEntity>} - the same entities, trimmed.
+   */
+  private selectFields(
+    model: string,
+    entities: Array<GCPDataStoreEntity>,
+    fields?: any,
+  ): Array<GCPDataStoreEntity> {
+    const selected = this.getSelectedProperties(model, fields)
+
+    if (!selected) {
+      return entities
+    }
+
+    for (const entity of entities) {
+      for (const name of Object.keys(entity)) {
+        if (name !== 'id' && !selected.includes(name)) {
+          delete entity[name]
+        }
+      }
+    }
+
+    return entities
+  }
+
+  /**
+   * Build the Datastore queries needed to answer a LoopBack filter, one per branch of its where
+   * clause, see {@link compileWhereFilter}.
+   *
+   * When there are several branches, each query returns candidates for the merged result, so
+   * ordering, skip and limit are left to {@link mergeQueryResults}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} filters - the filter object containing filter conditions.
+   * @param {Object} [options] - the options object, used to query within a transaction.
+   * @returns {Array<Query>} - the queries, none if the filter can't match anything.
+   */
+  private buildQueries(model: string, filters, options?: ConnectorOptions): Array<Query> {
+    const { where } = filters
+    const namespace = this.getNamespace(model, options)
+    const branches = where ? this.compileWhereFilter(model, where, namespace) : [[]]
+
+    if (branches.length === 1) {
+      return [this.buildQuery(model, filters, branches[0], options)]
+    }
+
+    if (filters.startCursor || filters.endCursor) {
+      throw new DatastoreError(
+        400,
+        'UNSUPPORTED_QUERY',
+        'Cursors can not be combined with "or", "inq", "neq" or "nin" conditions, which are ' +
+          'answered by merging the results of several queries.',
+      )
+    }
+
+    // no projection either, the merged results are ordered by properties that may not be selected
+    return branches.map((branch) =>
+      this.buildQuery(model, this.getBranchFilters(model, filters, branch), branch, options),
+    )
+  }
+
+  /**
+   * Get the filter a branch query runs with when the results of several branches are merged, see
+   * {@link mergeQueryResults}. The merged result only takes the first skip + limit entities in
+   * the order of the filter, so each branch only needs its own first skip + limit entities.
+   *
+   * Datastore requires a query with an inequality filter to be ordered by that property first,
+   * e.g. the branches of { status: { neq: 'closed' } } by status, so a branch whose inequality
+   * conflicts with the order is read whole and ordered once merged.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} filters - the filter object containing filter conditions.
+   * @param {QueryBranch} branch - the property filters of the branch query.
+   * @returns {Object} - the filter of the branch query.
+   */
+  private getBranchFilters(model: string, filters, branch: QueryBranch) {
+    const { where, order, skip, limit } = filters
+    if (!limit) {
+      return { where }
+    }
+
+    const inequalities = new Set(
+      branch
+        .filter(({ operator }) => ['<', '<=', '>', '>='].includes(operator))
+        .map(({ property }) => property),
+    )
+    const [firstOrder] = GoogleCloudDatastore.parseOrder(order)
+    const canOrder =
+      !firstOrder ||
+      inequalities.size === 0 ||
+      (inequalities.size === 1 && inequalities.has(this.getColumnPath(model, firstOrder[0])))
+
+    return canOrder ? { where, order, limit: (skip || 0) + limit } : { where }
+  }
+
+  /**
+   * Merge the results of the queries built for the branches of a where clause, then apply the
+   * ordering, skip and limit of the filter.
+   *
+   * @param {Array} results - the entities returned by each query.
+   * @param {Object} filters - the filter object containing filter conditions.
+   * @returns {Array<GCPDataStoreEntity>}
+   */
+  private mergeQueryResults(
+    results: Array<Array<GCPDataStoreEntity>>,
+    filters,
+  ): Array<GCPDataStoreEntity> {
+    const { order, skip, limit } = filters
+    const entitiesByKey = new Map<string, GCPDataStoreEntity>()
+
+    // an entity can match several branches, e.g. { or: [{ type: 'Animal' }, { age: 2 }] }
+    for (const entities of results) {
+      for (const entity of entities) {
+        entitiesByKey.set(entity[this.datastore.KEY].path.join('/'), entity)
+      }
+    }
+
+    const entities = Array.from(entitiesByKey.values())
+    const ordering = GoogleCloudDatastore.parseOrder(order)
+
+    entities.sort((a, b) => {
+      for (const [property, { descending }] of ordering) {
+        const comparison =
+          property === 'id'
+            ? GoogleCloudDatastore.compareKeys(a[this.datastore.KEY], b[this.datastore.KEY])
+            : GoogleCloudDatastore.compareValues(a[property], b[property])
+        if (comparison !== 0) {
+          return descending ? -comparison : comparison
+        }
+      }
+      return 0
+    })
+
+    const start = skip || 0
+    return entities.slice(start, limit ? start + limit : undefined)
+  }
+
+  /**
+   * Get {@link GCPDataStoreEntity} with query execution.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} filter - the filter for querying {@link GCPDataStoreEntity}.
+   * @param {Object} [options] - the options object, used to query within a transaction.
+   */
+  private async getResultsWithQuery(
+    model,
+    filter,
+    options?: ConnectorOptions,
+  ): Promise<Array<GCPDataStoreEntity>> {
+    filter = { ...filter, where: await this.resolveIdCondition(model, filter.where, options) }
+    const lookupKeys = this.getLookupKeys(model, filter, options)
+    if (lookupKeys) {
+      return this.lookupEntities(model, lookupKeys, filter, options)
+    }
+
+    const queries = this.buildQueries(model, filter, options)
+
+    if (queries.length === 1) {
+      const [entities, info] = await queries[0].run()
+      GoogleCloudDatastore.setQueryInfo(options, info)
+      return this.addIdentifierToEachEntity(model, entities)
+    }
+
+    const results = await Promise.all(queries.map((query) => query.run()))
+    // converted first, so the results are ordered by the LoopBack property names
+    return this.mergeQueryResults(
+      results.map(([entities]) => this.addIdentifierToEachEntity(model, entities)),
+      filter,
+    )
+  }
+
+  /**
+   * Get the keys of the entities a filter looks up by id, e.g. { where: { id: { inq: [...] } } },
+   * which is how LoopBack resolves belongsTo relations and findByIds. Such filters are answered
+   * with a single lookup, see {@link lookupEntities}, rather than a query per id.
+   *
+   * Keys of models with a parent can only be built when the where clause also holds the parent
+   * id, see {@link createParentKey}, otherwise they are resolved first, see
+   * {@link resolveIdCondition}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} filter - the filter object.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Array<EntityKey> | undefined} - undefined if the filter is not an id lookup.
+   */
+  private getLookupKeys(
+    model: string,
+    filter: Filter,
+    options?: ConnectorOptions,
+  ): Array<EntityKey> | undefined {
+    const { where, startCursor, endCursor } = filter
+    const { parent } = this.getModelSettings(model)
+    const ids = where?.id?.inq ?? where?.id?.in
+
+    if (!Array.isArray(ids) || Object.keys(where.id).length !== 1 || startCursor || endCursor) {
+      return undefined
+    }
+
+    const parentId = this.getParentId(model, where)
+    const hasParentId =
+      parentId !== undefined &&
+      parentId !== null &&
+      !GoogleCloudDatastore.isOperatorObject(parentId)
+    // keys resolved by resolveIdCondition are complete
+    const isResolved = ids.every((id) => id instanceof entity.Key)
+    if (parent && !hasParentId && !isResolved) {
+      return undefined
+    }
+
+    // any other condition has to be checked by a query
+    const otherConditions = Object.keys(where).filter((key) => key !== 'id')
+    if (otherConditions.join() !== (parent && hasParentId ? parent.property : '')) {
+      return undefined
+    }
+
+    if (isResolved) {
+      return ids
+    }
+
+    const namespace = this.getNamespace(model, options)
+    const parentKey = this.createParentKey(model, parentId, namespace)
+    return ids.map((id) => this.createEntityKeyWithId(model, id, namespace, parentKey))
+  }
+
+  /**
+   * Read {@link GCPDataStoreEntity} by key, with one request per 1000 keys, then apply the
+   * ordering, skip and limit of the filter. Without ordering, entities are returned in the order
+   * of their keys.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Array<EntityKey>} keys - the keys of the entities, see {@link getLookupKeys}.
+   * @param {Object} filter - the filter object.
+   * @param {Object} [options] - the options object, used to read within a transaction.
+   * @returns {Promise<Array<GCPDataStoreEntity>>}
+   */
+  private async lookupEntities(
+    model: string,
+    keys: Array<EntityKey>,
+    filter: Filter,
+    options?: ConnectorOptions,
+  ): Promise<Array<GCPDataStoreEntity>> {
+    const entitiesByPath = new Map<string, GCPDataStoreEntity>()
+
+    for (let start = 0; start < keys.length; start += MAX_KEYS_PER_LOOKUP) {
+      const [entities] = await this.getClient(options).get(
+        keys.slice(start, start + MAX_KEYS_PER_LOOKUP),
+      )
+      const found = this.excludesDeleted(model, options)
+        ? entities.filter((entity) => !GoogleCloudDatastore.isDeleted(entity))
+        : entities
+      for (const entity of this.addIdentifierToEachEntity(model, found)) {
+        entitiesByPath.set(entity[this.datastore.KEY].path.join('/'), entity)
+      }
+    }
+
+    const entities = keys
+      .map((key) => entitiesByPath.get(key.path.join('/')))
+      .filter((entity) => entity !== undefined)
+    return this.mergeQueryResults([entities], filter)
+  }
+
+  /**
+   * Internal method - Check if a where clause looks up a single entity by its id, as opposed to
+   * conditions on the id such as { id: { inq: [...] } } which are compiled into a query.
+   *
+   * Only the id, and the parent id of models with a parent, may be given. Any other condition has
+   * to be checked by a query, where the id is compiled into a filter on the key, see
+   * {@link compilePropertyCondition}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} where - the where clause.
+   * @returns {boolean}
+   */
+  private isIdLookup(model: string, where?: Filter): boolean {
+    if (!where || !GoogleCloudDatastore.isScalar(where.id)) {
+      return false
+    }
+
+    const { parent } = this.getModelSettings(model)
+    return Object.keys(where).every(
+      (key) =>
+        key === 'id' || (parent?.property === key && GoogleCloudDatastore.isScalar(where[key])),
+    )
+  }
+
+  /**
+   * Internal method - Check if a condition compares with a single value, as opposed to a missing
+   * value or an object with operators.
+   *
+   * @param {*} condition - the condition on a property.
+   * @returns {boolean}
+   */
+  private static isScalar(condition: any): boolean {
+    return (
+      condition !== undefined &&
+      condition !== null &&
+      !GoogleCloudDatastore.isOperatorObject(condition)
+    )
+  }
+
+  /**
+   * Resolve the keys of the ids the where clause compares with when the keys can't be built from
+   * the where clause alone, i.e. for models with a parent whose id is not given, see
+   * {@link resolveEntityKey}. The keys then replace the ids so the query filters on them, e.g.
+   * { id: { inq: [1, 2] } } becomes { id: { inq: [key1, key2] } }. The conditions of "and" and
+   * "or" clauses are resolved the same way.
+   *
+   * Other comparisons of the id, such as neq or gt, compare keys, which are ordered by their
+   * parent first, so they fail with a 400 MISSING_PARENT_ID error.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} [where] - the where clause.
+   * @param {Object} [options] - the options object passed by LoopBack.
+   * @returns {Promise<Object>} - the where clause, with the resolved keys if there are any.
+   */
+  private async resolveIdCondition(
+    model: string,
+    where?: Filter,
+    options?: ConnectorOptions,
+  ): Promise<Filter | undefined> {
+    const { parent } = this.getModelSettings(model)
+    if (!parent || !where || GoogleCloudDatastore.isScalar(where[parent.property])) {
+      return where
+    }
+
+    const resolved = { ...where }
+    for (const operator of ['and', 'or']) {
+      if (Array.isArray(where[operator])) {
+        resolved[operator] = await Promise.all(
+          where[operator].map((condition: Filter) =>
+            this.resolveIdCondition(model, condition, options),
+          ),
+        )
+      }
+    }
+
+    const { id } = where
+    if (id === undefined || id === null || id instanceof entity.Key) {
+      return resolved
+    }
+
+    if (GoogleCloudDatastore.isScalar(id)) {
+      resolved.id = await this.resolveEntityKey(model, id, undefined, options)
+      return resolved
+    }
+
+    const ids = id.inq ?? id.in
+    if (!Array.isArray(ids) || Object.keys(id).length !== 1) {
+      throw new DatastoreError(
+        400,
+        'MISSING_PARENT_ID',
+        `Ids of model "${model}" are only unique under a parent, conditions on the id other ` +
+          `than an equality or "inq" need the "${parent.property}" property too.`,
+      )
+    }
+
+    if (!ids.every((value) => value instanceof entity.Key)) {
+      resolved.id = { inq: await this.findKeysById(model, ids, options) }
+    }
+    return resolved
+  }
+
+  /**
+   * Internal method - Check if filter object has at least one valid property.
+   *
+   * @param {Object} filter - the filters object.
+   * @returns whether the filters object contains filters.
+   */
+  private static hasFilter({
+    where,
+    order,
+    limit,
+    fields,
+    skip,
+    startCursor,
+    endCursor,
+  }: Filter): boolean {
+    return !!(where || limit || fields || order || skip || startCursor || endCursor)
+  }
+
+  /**
+   * Report where a query stopped reading to the caller, so the next page can be read from the
+   * end cursor instead of skipping over every previous result.
+   *
+   * The information is only reported if the caller asks for it by passing a `queryInfo` object
+   * in the options, which is then filled with the `endCursor` and `moreResults` of the query.
+   *
+   * @param {Object} options - the options object passed by LoopBack.
+   * @param {RunQueryInfo} info - the information returned by the query.
+   */
+  private static setQueryInfo(options: ConnectorOptions, info: RunQueryInfo): void {
+    if (options && options.queryInfo && info) {
+      Object.assign(options.queryInfo, {
+        endCursor: info.endCursor,
+        moreResults: info.moreResults,
+      })
+    }
+  }
+
+  /**
+   * Find matching {@link GCPDataStoreEntity} using a filter.
+   *
+   * Besides the LoopBack filter properties, a `startCursor` and `endCursor` can be passed in the
+   * filter or the options to read a page of results, see {@link setQueryInfo}.
+   *
+   * Callers that only need ids can pass `keysOnly: true` in the options, the entities are then
+   * found with a keys-only query and returned with their id alone.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} filter - the filters object narrowing down which data to fetch.
+   * @param {Object} options - the options object
+   * @param {Function} [callback] - the callback function
+   */
+  async all(
+    model: string,
+    filter: Filter,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    try {
+      const { where } = filter
+      const { startCursor, endCursor, keysOnly } = options || {}
+
+      if (startCursor || endCursor) {
+        filter = Object.assign({ startCursor, endCursor }, filter)
+      }
+
+      // selecting the id alone is answered with a keys-only query, see canProject
+      if (keysOnly) {
+        filter = Object.assign({}, filter, { fields: ['id'] })
+      }
+
+      let result
+
+      if (this.isIdLookup(model, where)) {
+        result = await this.findById(model, where.id, options, this.getParentId(model, where))
+      } else if (GoogleCloudDatastore.hasFilter(filter)) {
+        result = await this.getResultsWithQuery(model, filter, options)
+      } else {
+        result = await this.getAllEntity(model, options)
+      }
+
+      callback(null, this.selectFields(model, result, filter.fields))
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Stream matching {@link GCPDataStoreEntity} instead of buffering every result in memory, e.g. to
+   * export a whole Kind. Entities are read from Datastore as the stream is consumed, so a slow
+   * consumer applies back-pressure to the query.
+   *
+   * This method is not part of the LoopBack connector contract, call it from a custom repository
+   * method through the datasource:
+   *
+   * const stream = this.dataSource.connector.stream(Audit.modelName, { where: { type: 'login' } })
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} [filter] - the filters object narrowing down which data to stream.
+   * @param {Object} [options] - the options object
+   * @returns {Readable} - an object mode stream of entities with their id attached.
+   */
+  stream(model: string, filter: Filter = {}, options?: ConnectorOptions): Readable {
+    const queries = this.buildQueries(model, filter, options)
+
+    if (queries.length === 0) {
+      return Readable.from([])
+    }
+
+    if (queries.length > 1) {
+      throw new DatastoreError(
+        400,
+        'UNSUPPORTED_QUERY',
+        'Streaming can not be combined with "or", "inq", "neq" or "nin" conditions, which are ' +
+          'answered by merging the results of several queries.',
+      )
+    }
+
+    const addIdentifier = new Transform({
+      objectMode: true,
+      transform: (entity, _encoding, done) => {
+        const [result] = this.addIdentifierToEachEntity(model, [entity])
+        done(null, this.selectFields(model, [result], filter.fields)[0])
+      },
+      destroy: (error, done) => {
+        done(error && GoogleCloudDatastore.toLoopBackError(error))
+      },
+    })
+
+    // errors of the query are forwarded to the returned stream, which pipeline destroys with them
+    return pipeline(queries[0].runStream(), addIdentifier, () => undefined)
+  }
+
+  /**
+   * Parse the order of a LoopBack filter into properties and Datastore ordering objects.
+   *
+   * @param {String | Array} order - e.g. 'price DESC' or ['price DESC', 'name ASC']
+   * @returns {Array} - tuples of property name and ordering object.
+   */
+  private static parseOrder(order?: string | Array<string>): Array<[string, OrderQuery]> {
+    if (!order) {
+      return []
+    }
+
+    const options = GoogleCloudDatastore.notAnArray(order) ? [order as string] : (order as string[])
+    const ordering: Array<[string, OrderQuery]> = []
+
+    for (const option of options) {
+      // example:
+      // order: 'price DESC',
+      const [property, orderOption] = option.split(' ')
+      // LoopBack sorts ascending when no direction is given
+      ordering.push([property, GoogleCloudDatastore.generateOrderingObject(orderOption || 'ASC')])
+    }
+
+    return ordering
+  }
+
+  /**
+   * Generate ordering object to use in the datastore query.
+   *
+   * @param {String} orderOption <ASC|DESC> Order option
+   */
+  private static generateOrderingObject(orderOption): OrderQuery {
+    if (orderOption.toUpperCase() === 'DESC') return { descending: true }
+    return { ascending: true }
+  }
+
+  /**
+   * Compile a LoopBack where clause into the branches of a Datastore query.
+   *
+   * Datastore combines the filters of a query with AND and only supports the =, <, <=, > and >=
+   * operators. Everything else is rewritten into those operators, and conditions that need OR
+   * semantics, such as "or", "inq", "neq" and "nin", are split into several branches. Each branch
+   * is run as its own query and the results are merged, see {@link getResultsWithQuery}.
+   *
+   * {
+   *   where: {
+   *     or: [{ size: 'large' }, { price: { between: [10, 20] } }]
+   *   }
+   * }
+   *
+   * compiles to
+   *
+   * [
+   *   [{ property: 'size', operator: '=', value: 'large' }],
+   *   [{ property: 'price', operator: '>=', value: 10 }, { property: 'price', operator: '<=', value: 20 }],
+   * ]
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} where - the where clause https://loopback.io/doc/en/lb4/Where-filter.html
+   * @param {String} [namespace] - namespace of the keys used to filter on ids.
+   * @returns {Array<QueryBranch>} - the branches, none if the where clause can't match anything.
+   */
+  private compileWhereFilter(model: string, where: Filter, namespace?: string): Array<QueryBranch> {
+    let branches: Array<QueryBranch> = [[]]
+
+    for (const key in where) {
+      // ancestors restrict the whole query, see buildQuery
+      if (!where.hasOwnProperty(key) || key === 'ancestor') {
+        continue
+      }
+
+      let conditionBranches: Array<QueryBranch>
+      if (key === 'and') {
+        conditionBranches = where.and.reduce(
+          (combined: Array<QueryBranch>, condition: Filter) =>
+            GoogleCloudDatastore.combineBranches(
+              combined,
+              this.compileWhereFilter(model, condition, namespace),
+            ),
+          [[]],
+        )
+      } else if (key === 'or') {
+        conditionBranches = [].concat(
+          ...where.or.map((condition: Filter) =>
+            this.compileWhereFilter(model, condition, namespace),
+          ),
+        )
+      } else {
+        conditionBranches = this.compilePropertyCondition(
+          model,
+          key,
+          where[key],
+          namespace,
+          this.createParentKey(model, this.getScalarParentId(model, where), namespace),
+        )
+      }
+
+      branches = GoogleCloudDatastore.combineBranches(branches, conditionBranches)
+    }
+
+    return branches
+  }
+
+  /**
+   * Combine two sets of query branches with AND, i.e. every branch of the first set is joined with
+   * every branch of the second set.
+   *
+   * @param {Array<QueryBranch>} left - the first set of branches.
+   * @param {Array<QueryBranch>} right - the second set of branches.
+   * @returns {Array<QueryBranch>}
+   */
+  private static combineBranches(
+    left: Array<QueryBranch>,
+    right: Array<QueryBranch>,
+  ): Array<QueryBranch> {
+    const combined: Array<QueryBranch> = []
+    for (const leftBranch of left) {
+      for (const rightBranch of right) {
+        combined.push([...leftBranch, ...rightBranch])
+      }
+    }
+    return combined
+  }
+
+  /**
+   * Compile the condition on a single property into query branches.
+   *
+   * {
+   *   where: {
+   *     size: {
+   *       inq: ['large', 'medium'] // compilePropertyCondition starts with this level
+   *     }
+   *   }
+   * }
+   *
+   * Conditions on the id are compiled into filters on the entity key.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {String} property - name of the property being filtered.
+   * @param {*} condition - the value to compare with, or an object with operators and values.
+   * @param {String} [namespace] - namespace of the keys used to filter on ids.
+   * @param {EntityKey} [parentKey] - key of the parent of the entities filtered on their ids.
+   * @returns {Array<QueryBranch>}
+   */
+  private compilePropertyCondition(
+    model: string,
+    property: string,
+    condition: any,
+    namespace?: string,
+    parentKey?: EntityKey,
+  ): Array<QueryBranch> {
+    const isKey = property === 'id'
+    const isParent = this.getModelSettings(model).parent?.property === property
+    const filterProperty = isKey ? '__key__' : this.getColumnPath(model, property)
+    const definition = isKey ? undefined : this.getPropertyDefinition(model, property)
+    const filterValue = (value) => {
+      if (!isKey) {
+        return this.toDatastoreValue(value, definition?.type, definition)
+      }
+
+      // keys resolved by resolveIdCondition are used as they are
+      return value instanceof entity.Key
+        ? value
+        : this.createEntityKeyWithId(model, value, namespace, parentKey)
+    }
+    const branch = (...comparisons: Array<[Operator, any]>): QueryBranch => {
+      return comparisons.map(([operator, value]) => {
+        // children of a parent are found by their key, which is strongly consistent, e.g. when
+        // LoopBack resolves the hasMany relation of an order with its line items. The client has no
+        // IN operator, so an inq on the parent id still takes a query per parent
+        if (isParent && operator === '=' && value !== null && value !== undefined) {
+          const parentKey = this.createParentKey(model, value, namespace)
+          return { property: '__key__', operator: 'HAS_ANCESTOR', value: parentKey }
+        }
+
+        return { property: filterProperty, operator, value: filterValue(value) }
+      })
+    }
+
+    if (!GoogleCloudDatastore.isOperatorObject(condition)) {
+      return [branch(['=', condition])]
+    }
+
+    let branches: Array<QueryBranch> = [[]]
+
+    for (const operation in condition) {
+      if (!condition.hasOwnProperty(operation)) {
+        continue
+      }
+
+      const comparison = condition[operation]
+      let operationBranches: Array<QueryBranch>
+      switch (operation) {
+        case 'eq':
+          operationBranches = [branch(['=', comparison])]
+          break
+        case 'lt':
+          operationBranches = [branch(['<', comparison])]
+          break
+        case 'lte':
+          operationBranches = [branch(['<=', comparison])]
+          break
+        case 'gt':
+          operationBranches = [branch(['>', comparison])]
+          break
+        case 'gte':
+          operationBranches = [branch(['>=', comparison])]
+          break
+        case 'between':
+          operationBranches = [branch(['>=', comparison[0]], ['<=', comparison[1]])]
+          break
+        // a value is either smaller or greater than the one it must not equal
+        case 'ne':
+        case 'neq':
+          operationBranches = [branch(['<', comparison]), branch(['>', comparison])]
+          break
+        case 'in':
+        case 'inq':
+          operationBranches = comparison.map((value) => branch(['=', value]))
+          break
+        // the ranges between the excluded values, e.g. nin: [2, 5] gives < 2, > 2 and < 5, > 5
+        case 'nin': {
+          const values = GoogleCloudDatastore.sortValues(comparison)
+          operationBranches = values.map((value, index) =>
+            index === 0 ? branch(['<', value]) : branch(['>', values[index - 1]], ['<', value]),
+          )
+          operationBranches.push(values.length ? branch(['>', values[values.length - 1]]) : [])
+          break
+        }
+        case 'like': {
+          const prefix = GoogleCloudDatastore.getLikePrefix(property, comparison)
+          operationBranches = prefix.complete
+            ? [branch(['=', prefix.value])]
+            : [branch(['>=', prefix.value], ['<', `${prefix.value}\ufffd`])]
+          break
+        }
+        default:
+          throw new DatastoreError(
+            400,
+            'UNSUPPORTED_OPERATOR',
+            `Operator "${operation}" used on property "${property}" is not supported by ` +
+              'Google Cloud Datastore.',
+          )
+      }
+
+      branches = GoogleCloudDatastore.combineBranches(branches, operationBranches)
+    }
+
+    return branches
+  }
+
+  /**
+   * Determine whether the condition on a property is an object of operators, e.g. { gt: 5 }, as
+   * opposed to a value to compare with for equality, which may also be an object such as a Date.
+   *
+   * @param {*} condition - the condition on a property.
+   * @returns {boolean}
+   */
+  private static isOperatorObject(condition: any): boolean {
+    return (
+      condition !== null &&
+      typeof condition === 'object' &&
+      Object.getPrototypeOf(condition) === Object.prototype
+    )
+  }
+
+  /**
+   * Sort and de-duplicate the values of a "nin" condition, so they can be turned into ranges.
+   *
+   * @param {Array} values - the excluded values.
+   * @returns {Array}
+   */
+  private static sortValues(values: Array<any>): Array<any> {
+    return Array.from(new Set(values)).sort(GoogleCloudDatastore.compareValues)
+  }
+
+  /**
+   * Compare two property values the way an ascending Datastore order would.
+   *
+   * @param {*} a - the first value.
+   * @param {*} b - the second value.
+   * @returns {number} - negative if a comes first, positive if b comes first, else 0.
+   */
+  private static compareValues(a: any, b: any): number {
+    if (a === b) return 0
+    // Datastore sorts null before every other value
+    if (a === null || a === undefined) return -1
+    if (b === null || b === undefined) return 1
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+  /**
+   * Compare two keys the way Datastore orders __key__, so that merged results ordered by id match
+   * the order of each branch query: element by element along the key path, each by kind and then
+   * by id, with numeric ids before names and compared as numbers rather than as the strings the
+   * client returns.
+   *
+   * @param {EntityKey} a - the first key.
+   * @param {EntityKey} b - the second key.
+   * @returns {Number} - negative if a sorts first, positive if b sorts first, 0 if equal.
+   */
+  private static compareKeys(a: EntityKey, b: EntityKey): number {
+    const path = (key: EntityKey): Array<EntityKey> =>
+      key.parent ? [...path(key.parent), key] : [key]
+    const [pathA, pathB] = [path(a), path(b)]
+
+    for (let i = 0; i < Math.min(pathA.length, pathB.length); i++) {
+      const [elementA, elementB] = [pathA[i], pathB[i]]
+      if (elementA.kind !== elementB.kind) {
+        return elementA.kind < elementB.kind ? -1 : 1
+      }
+
+      if (elementA.id !== undefined && elementB.id !== undefined) {
+        const [idA, idB] = [BigInt(elementA.id), BigInt(elementB.id)]
+        if (idA !== idB) return idA < idB ? -1 : 1
+      } else if (elementA.id !== undefined || elementB.id !== undefined) {
+        return elementA.id !== undefined ? -1 : 1
+      } else if (elementA.name !== elementB.name) {
+        return elementA.name < elementB.name ? -1 : 1
+      }
+    }
+
+    // an ancestor sorts before its descendants
+    return pathA.length - pathB.length
+  }
+
+  /**
+   * Extract the prefix of a "like" pattern. Datastore has no pattern matching, but a prefix
+   * pattern such as 'Clem%' can be expressed as a range of strings starting with the prefix.
+   *
+   * @param {String} property - name of the property being filtered, used in the error message.
+   * @param {String} pattern - the like pattern.
+   * @returns {{value: string; complete: boolean}} - the prefix, and whether the pattern has no
+   *  wildcard at all so the prefix is the complete value.
+   */
+  private static getLikePrefix(
+    property: string,
+    pattern: any,
+  ): { value: string; complete: boolean } {
+    const value = typeof pattern === 'string' ? pattern.replace(/%$/, '') : undefined
+
+    if (value === undefined || /[%_]/.test(value)) {
+      throw new DatastoreError(
+        400,
+        'UNSUPPORTED_OPERATOR',
+        `Pattern "${pattern}" used on property "${property}" is not supported by Google Cloud ` +
+          'Datastore, only prefix patterns such as "prefix%" are.',
+      )
+    }
+
+    return { value, complete: value === pattern }
+  }
+
+  /**
+   * Count the number of {@link GCPDataStoreEntity} of a given Kind matching the "where"
+   * conditions. The conditions are compiled with {@link buildQuery} and counted with
+   * {@link countQueryResults}, so no entity bodies are transferred. Counting still scans every
+   * matching index entry though, so for very large Kinds you are better off maintaining a counter
+   * under a {@link EntityKey} e.g. EntityCounts.
+   *
+   * Note: LoopBack repository's "exist" method also uses this "count" method to determine whether
+   * or not a {@link GCPDataStoreEntity} exists. If you make a call like:
+   * this.userRepository.exists('394628734637'), the the id will be transformed into a where filter
+   * and passed to this method. That's why we check for an id lookup with {@link isIdLookup}.
+   *
+   * When using LoopBack repository's "exist" method, the length passed to the callback will
+   * be transformed to a boolean and when the "count" method is used, it will be transformed into
+   * a {@link LoopBackCountResult} object.
+   *
+   * Fixed bug in
+   * [inspired source](https://github.com/henriquecarv/loopback-connector-google-cloud-datastore)
+   * where the null results weren't being filtered out, resulting in an inaccurate count and
+   * a 100% false positive rate when using LoopBack 4's exist method.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} where - a filter containing "where" conditions
+   *  https://loopback.io/doc/en/lb4/Where-filter.html
+   * @param {Object} options - the options object
+   * @param {Function} callback - the callback function
+   */
+  async count(model: string, where: Filter, options: ConnectorOptions, callback): Promise<void> {
+    try {
+      // if there is a specified filter, or when using LoopBack's exist method.
+      if (this.isIdLookup(model, where)) {
+        const parentId = this.getParentId(model, where)
+        const key = await this.resolveEntityKey(model, where.id, parentId, options)
+        // a keys-only query tells whether the entity exists without reading it, transactions
+        // look it up to keep the read in the transaction
+        const excludesDeleted = this.excludesDeleted(model, options)
+        let query = this.datastore.createQuery(key.namespace, key.kind).filter('__key__', '=', key)
+        if (excludesDeleted) {
+          query = query.filter('deletedAt', '=', null)
+        }
+
+        const result = GoogleCloudDatastore.getTransaction(options)
+          ? (await this.getClient(options).get(key)).filter(
+              (entity) =>
+                entity != null && !(excludesDeleted && GoogleCloudDatastore.isDeleted(entity)),
+            )
+          : await this.getKeysWithQueries([query])
+        callback(null, result.length)
+        return
+      }
+
+      const resolvedWhere = await this.resolveIdCondition(model, where, options)
+      const queries = this.buildQueries(model, { where: resolvedWhere }, options)
+      callback(null, await this.countQueryResults(queries))
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Count the results of the queries built by {@link buildQueries} without loading the entities.
+   *
+   * The queries are run keys-only and the keys are counted, so every matching key is transferred
+   * and held in memory, see {@link getKeysWithQueries}. The keys of several queries are
+   * de-duplicated as an entity can match more than one. Aggregation queries, which count on the
+   * server, need a newer version of the Datastore client than the one this connector depends on.
+   *
+   * @param {Array<Query>} queries - the queries to count the results of.
+   * @returns {Promise<number>}
+   */
+  private async countQueryResults(queries: Array<Query>): Promise<number> {
+    return (await this.getKeysWithQueries(queries)).length
+  }
+
+  /**
+   * Run queries as keys-only queries, which only read index entries and are billed as small
+   * operations, and return the keys of the union of their results.
+   *
+   * @param {Array<Query>} queries - the queries, see {@link buildQueries}.
+   * @returns {Promise<Array<EntityKey>>}
+   */
+  private async getKeysWithQueries(queries: Array<Query>): Promise<Array<EntityKey>> {
+    const results = await Promise.all(queries.map((query) => query.select('__key__').run()))
+    const keysByPath = new Map<string, EntityKey>()
+
+    for (const [entities] of results) {
+      for (const entity of entities) {
+        const key: EntityKey = entity[this.datastore.KEY]
+        keysByPath.set(key.path.join('/'), key)
+      }
+    }
+
+    return Array.from(keysByPath.values())
+  }
+
+  /**
+   * Update matching {@link GCPDataStoreEntity} with new values. The values are merged into the
+   * persisted entities: properties missing from the data keep their current values.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} filter The filter object
+   * @param {Object} data The property/value pairs to be updated
+   * @param {Object} options - configure network options.
+   * @param {Function} callback The callback function
+   */
+  async update(
+    model: string,
+    filter: Filter,
+    data,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ) {
+    try {
+      const { where } = filter
+
+      // Handle ".updateById" from LoopBack
+      if (this.isIdLookup(model, filter)) {
+        const parentId = this.getParentId(model, filter) ?? this.getParentId(model, data)
+        callback(null, await this.updateEntity(model, filter.id, data, options, parentId))
+        return
+      }
+      // Handle update if just one entity. ".update" method in LoopBack's crud repository.
+      else if (this.isIdLookup(model, where)) {
+        const parentId = this.getParentId(model, where) ?? this.getParentId(model, data)
+        callback(null, await this.updateEntity(model, where.id, data, options, parentId))
+        return
+      }
+
+      // Handle multiple entity updates
+      // Find the keys of the entities to update with keys-only queries. LoopBack passes the where
+      // clause itself rather than a filter object.
+      const keys = await this.getMatchingKeys(model, where || filter, options)
+
+      // The entities are read again and written in a transaction per batch, so a concurrent write
+      // of their other properties is not overwritten, and versions are checked, see checkVersion
+      const updatedRows = await this.writeInBatches(
+        keys,
+        (batch) =>
+          this.runInTransaction(options, async (transactionOptions) => {
+            const [current] = await this.getClient(transactionOptions).get(batch)
+            const newEntities = current
+              .filter(
+                (entity: GCPDataStoreEntity) =>
+                  !(this.excludesDeleted(model, options) && GoogleCloudDatastore.isDeleted(entity)),
+              )
+              .map((entity: GCPDataStoreEntity) =>
+                this.applyChanges(model, entity[this.datastore.KEY], entity, data, true),
+              )
+            await this.saveEntities(newEntities, 'update', transactionOptions)
+            return newEntities.length
+          }),
+        options,
+      )
+      callback(null, { count: updatedRows })
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Replace matching Entity. Properties missing from the data are removed, only the createdAt
+   * timestamp is kept.
+   *
+   * @param {String} model The model name
+   * @param {String} id The entity id
+   * @param {Object} data The property/value pairs to be replaced
+   * @param {Object} options - configure network options.
+   * @param {Function} callback The callback function
+   */
+  async replaceById(model, id, data, options: ConnectorOptions, callback) {
+    try {
+      const parentId = this.getParentId(model, data)
+      const result = await this.updateEntity(model, id, data, options, parentId, false)
+      callback(null, result)
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Write new values to an existing {@link GCPDataStoreEntity}. The entity is read and written in
+   * a transaction, see {@link runInTransaction}, so concurrent writes to other properties are not
+   * lost.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {String} id - the id of the entity.
+   * @param {Object} data - the property/value pairs to be written.
+   * @param {Object} [options] - the options object
+   * @param {String} [parentId] - id of the parent entity, see {@link resolveEntityKey}.
+   * @param {boolean} [merge] - whether to keep the properties missing from the data, see
+   *  {@link applyChanges}.
+   * @returns {Promise<Count>} - a count of 0 if the entity doesn't exist.
+   */
+  private async updateEntity(
+    model: string,
+    id: string,
+    data: object,
+    options?: ConnectorOptions,
+    parentId?: string,
+    merge = true,
+  ): Promise<Count> {
+    // @ts-ignore
+    delete data.id
+
+    return this.runInTransaction(options, async (transactionOptions) => {
+      const key = await this.resolveEntityKey(model, id, parentId, transactionOptions)
+      const existing = await this.getEntity(key, transactionOptions)
+      if (
+        !existing ||
+        (this.excludesDeleted(model, options) && GoogleCloudDatastore.isDeleted(existing))
+      ) {
+        return { count: 0 }
+      }
+
+      const entity = this.applyChanges(model, key, existing, data, merge)
+      await this.saveEntities([entity], 'update', transactionOptions)
+      return { count: 1 }
+    })
+  }
+
+  /**
+   * Update an existing {@link GCPDataStoreEntity} with new values, or create it if it doesn't exist.
+   *
+   * Properties missing from the data are kept for an existing entity, as is the createdAt
+   * timestamp stamped by {@link createEntity}. The read and the write happen in a transaction, see
+   * {@link runInTransaction}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} data - the property/value pairs to be updated, including the id.
+   * @param {Object} options - the options object
+   * @param {Function} callback - called with the persisted data and { isNewInstance }.
+   */
+  async updateOrCreate(
+    model: string,
+    data: Filter,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    await this.writeOrCreate(model, data, true, options, callback)
+  }
+
+  /**
+   * Replace an existing {@link GCPDataStoreEntity}, or create it if it doesn't exist.
+   *
+   * Unlike {@link updateOrCreate}, properties missing from the data are removed from an existing
+   * entity. Only its createdAt timestamp is kept.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} data - the property/value pairs to be persisted, including the id.
+   * @param {Object} options - the options object
+   * @param {Function} callback - called with the persisted data and { isNewInstance }.
+   */
+  async replaceOrCreate(
+    model: string,
+    data: Filter,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    await this.writeOrCreate(model, data, false, options, callback)
+  }
+
+  /**
+   * Persist a model instance, which LoopBack does through the instance's save method. The instance
+   * is replaced, or created if it doesn't exist, see {@link replaceOrCreate}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} data - the property/value pairs of the instance, including the id.
+   * @param {Object} options - the options object
+   * @param {Function} callback - called with the persisted data.
+   */
+  async save(
+    model: string,
+    data: Filter,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    await this.writeOrCreate(model, data, false, options, (error, result) =>
+      callback(error, result),
+    )
+  }
+
+  /**
+   * Shared implementation of {@link updateOrCreate}, {@link replaceOrCreate} and {@link save}.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} data - the property/value pairs to be persisted, including the id.
+   * @param {boolean} merge - whether to keep the properties of an existing entity missing from
+   *  the data.
+   * @param {Object} options - the options object
+   * @param {Function} callback - called with the persisted data and { isNewInstance }.
+   */
+  private async writeOrCreate(
+    model: string,
+    data: Filter,
+    merge: boolean,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    try {
+      const { id, ...properties } = data
+      const parentId = this.getParentId(model, data)
+
+      const { entity, isNewInstance } = await this.runInTransaction(
+        options,
+        async (transactionOptions) => {
+          // without an id there is nothing to update, the entity is created with an allocated id
+          const key =
+            id !== undefined && id !== null
+              ? await this.resolveEntityKey(model, id, parentId, transactionOptions)
+              : (await this.allocateKeys(model, [data], options))[0]
+          const existing = await this.getEntity(key, transactionOptions)
+          this.checkNotDeleted(model, key, existing, options)
+          const entity = existing
+            ? this.applyChanges(model, key, existing, properties, merge)
+            : this.createEntity(model, properties, key)
+
+          await this.saveEntities([entity], 'upsert', transactionOptions)
+          return { entity, isNewInstance: !existing }
+        },
+      )
+
+      const result = Object.assign(this.fromDatastoreProperties(model, { ...entity.data }), {
+        id: this.getModelId(model, entity.key),
+      })
+      callback(null, result, { isNewInstance })
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Update some properties of an existing {@link GCPDataStoreEntity}, keeping the others. This is
+   * called by LoopBack's updateAttributes and patchAttributes instance methods.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {String} id - the id of the entity.
+   * @param {Object} data - the property/value pairs to be updated.
+   * @param {Object} options - the options object
+   * @param {Function} callback - called with the updated data.
+   */
+  async updateAttributes(
+    model: string,
+    id: string,
+    data: Filter,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    try {
+      const parentId = this.getParentId(model, data)
+
+      const entity = await this.runInTransaction(options, async (transactionOptions) => {
+        const key = await this.resolveEntityKey(model, id, parentId, transactionOptions)
+        const existing = await this.getEntity(key, transactionOptions)
+        if (
+          !existing ||
+          (this.excludesDeleted(model, options) && GoogleCloudDatastore.isDeleted(existing))
+        ) {
+          throw new DatastoreError(
+            404,
+            'ENTITY_NOT_FOUND',
+            `Could not update attributes. Object with id ${id} does not exist!`,
+          )
+        }
+
+        const properties = { ...data }
+        delete properties.id
+        const entity = this.applyChanges(model, key, existing, properties, true)
+        await this.saveEntities([entity], 'update', transactionOptions)
+        return entity
+      })
+
+      callback(null, Object.assign(this.fromDatastoreProperties(model, { ...entity.data }), { id }))
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Find the first {@link GCPDataStoreEntity} matching a filter, or create it if there is none.
+   *
+   * The lookup and the insert happen in a transaction, so concurrent calls can't create the entity
+   * twice. A filter looking up an entity by id reads its key, other filters are queried within
+   * the transaction, with an ancestor query when they hold the parent id of a model with a parent.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} filter - the filter used to find the entity.
+   * @param {Object} data - the property/value pairs to create the entity with.
+   * @param {Object} options - the options object
+   * @param {Function} callback - called with the found or created data and whether it was created.
+   */
+  async findOrCreate(
+    model: string,
+    filter: Filter,
+    data: Filter,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ): Promise<void> {
+    try {
+      const { where } = filter
+      const isIdLookup = this.isIdLookup(model, where)
+      const { id = isIdLookup ? where.id : undefined, ...properties } = data
+      const parentId = this.getParentId(model, data) ?? this.getParentId(model, where)
+
+      const { entity, found, created } = await this.runInTransaction(
+        options,
+        async (transactionOptions) => {
+          if (!isIdLookup) {
+            const filterWithLimit = { ...filter, limit: 1 }
+            const [match] = await this.getResultsWithQuery(
+              model,
+              filterWithLimit,
+              transactionOptions,
+            )
+            if (match) {
+              return { found: match, created: false }
+            }
+          }
+
+          const key =
+            id !== undefined && id !== null
+              ? await this.resolveEntityKey(model, id, parentId, transactionOptions)
+              : (await this.allocateKeys(model, [data], options))[0]
+          const existing = await this.getEntity(key, transactionOptions)
+          this.checkNotDeleted(model, key, existing, options)
+          if (existing) {
+            return { entity: { key, data: existing }, created: false }
+          }
+
+          const entity = this.createEntity(model, properties, key)
+          await this.saveEntities([entity], 'insert', transactionOptions)
+          return { entity, created: true }
+        },
+      )
+
+      if (found) {
+        callback(null, found, false)
+        return
+      }
+
+      const foundId = this.getModelId(model, entity.key)
+      const result = Object.assign(this.fromDatastoreProperties(model, { ...entity.data }), {
+        id: foundId,
+      })
+      callback(null, result, created)
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Destroy all {@link GCPDataStoreEntity} of a given Kind matching the "where" conditions. The
+   * entities are found with keys-only queries, see {@link getKeysWithQueries}, so they are never
+   * read. Entities of models with soft deletes are marked as deleted instead, see
+   * {@link softDeleteEntities}.
+   *
+   * This method is also used by LoopBack repository's deleteById method, hence the check for
+   * "where" and "where.id".
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   *  For Example: @model({ name: Task.name })
+   * @param {Object} where - the filter object
+   * @param {Object} options - the options object
+   * @param {Function} [callback] - the callback function
+   */
+  async destroyAll(
+    model: string,
+    where: Filter,
+    options: ConnectorOptions,
+    callback: CallbackFunction,
+  ) {
+    try {
+      const keys = await this.getMatchingKeys(model, where, options)
+      const deletedRows = this.getModelSettings(model).softDelete
+        ? await this.softDeleteEntities(model, keys, options)
+        : await this.deleteEntities(keys, options)
+      // LoopBack expects result to be an object with a count property
+      callback(null, { count: deletedRows })
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
+  }
+
+  /**
+   * Permanently delete the {@link GCPDataStoreEntity} matching the "where" conditions, soft
+   * deleted or not, e.g. to remove the entities soft deleted more than 30 days ago:
+   *
+   * ```
+   * const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+   * await promisify(dataSource.connector.purge).call(dataSource.connector, 'Case', {
+   *   deletedAt: { lt: cutoff },
+   * }, {})
+   * ```
+   *
+   * This method is not part of the LoopBack connector contract, call it from a custom repository
+   * method through the datasource.
+   *
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} where - the filter object
+   * @param {Object} options - the options object
+   * @param {Function} callback - called with the count of deleted entities.
    */
-  async create(
+  async purge(
     model: string,
-    data: object,
-    options: CallOptions,
+    where: Filter,
+    options: ConnectorOptions,
     callback: CallbackFunction,
   ): Promise<void> {
     try {
-      const key = this.createEntityKey(model)
-      const entity = GoogleCloudDatastore.createEntity(data, key)
-      const result = await this.datastore.save(entity, options)
-      const id = GoogleCloudDatastore.extractIdFromFirstCommitResponse(result)
-      callback(null, id)
+      const purgeOptions = { ...options, withDeleted: true }
+      const keys = await this.getMatchingKeys(model, where, purgeOptions)
+      callback(null, { count: await this.deleteEntities(keys, purgeOptions) })
     } catch (error) {
-      console.error(error)
-      callback(error)
+      callback(GoogleCloudDatastore.toLoopBackError(error))
     }
   }
 
   /**
-   * Given only one item was committed to the database, extract the id from that
-   * committed Entity.
+   * Get the keys of the entities {@link update}, {@link destroyAll} and {@link purge} write. An id
+   * lookup names the key, whether or not the entity exists, any other where clause is queried.
    *
-   * @param {T} response - a response describing what was committed to the database.
-   * @returns {number | Long | string | null} - if the {@link GCPDataStoreEntity} has a valid id,
-   *  i.e. it has been persisted to the database at some point, it will not return null.
+   * @param {String} model - name of the model defined in LoopBack's model annotation.
+   * @param {Object} where - the filter object
+   * @param {Object} options - the options object
+   * @returns {Promise<Array<EntityKey>>}
    */
-  private static extractIdFromFirstCommitResponse<T extends CommitResponse>(
-    response: T,
-  ): number | Long | string | null {
-    const firstCommitResult = response[0]
-    return firstCommitResult?.mutationResults[0]?.key?.path[0]?.id
+  private async getMatchingKeys(
+    model: string,
+    where: Filter,
+    options: ConnectorOptions,
+  ): Promise<Array<EntityKey>> {
+    if (this.isIdLookup(model, where)) {
+      const parentId = this.getParentId(model, where)
+      return [await this.resolveEntityKey(model, where.id, parentId, options)]
+    }
+
+    const resolvedWhere = await this.resolveIdCondition(model, where, options)
+    return this.getKeysWithQueries(this.buildQueries(model, { where: resolvedWhere }, options))
   }
 
   /**
-   * Complete the {@link GCPDataStoreEntity} objects by making sure they have an id property
-   * with their unique identifiers attached.
+   * Delete {@link GCPDataStoreEntity} by key, in batches, see {@link writeInBatches}.
    *
-   * @param {Array} entities - the initial list of entities.
-   * @returns Array<GCPDataStoreEntity> - list of processed entities with the id key and value.
+   * @param {Array<EntityKey>} keys - the keys of the entities.
+   * @param {Object} options - the options object
+   * @returns {Promise<number>} - the number of deleted entities.
    */
-  addIdentifierToEachEntity(entities): Array<GCPDataStoreEntity> {
-    return entities.map((entity) => {
-      const id = entity[this.datastore.KEY].id
-      return Object.assign(entity, { id })
-    })
+  private async deleteEntities(keys: Array<EntityKey>, options: ConnectorOptions): Promise<number> {
+    return this.writeInBatches(
+      keys,
+      async (batch) => {
+        const deleteResult = await this.deleteKeys(batch, options)
+        return GoogleCloudDatastore.countMutations(deleteResult, batch.length)
+      },
+      options,
+    )
   }
 
   /**
-   * Find a single {@link GCPDataStoreEntity} using its id.
-   *
-   * The underlying Google Cloud Datastore API allows the sending of multiple keys to retrieve
-   * multiple {@link GCPDataStoreEntity}, but this method name has to map to a LoopBack repository
-   * method that only retrieves a single {@link GCPDataStoreEntity} so that's how this method
-   * is implemented.
+   * Mark {@link GCPDataStoreEntity} as deleted by stamping their deletedAt property, so that they
+   * can be restored, e.g. with `repository.updateById(id, { deletedAt: null }, { withDeleted:
+   * true })`, until they are purged, see {@link purge}. Every batch is read and written in a
+   * transaction, entities that are missing or already deleted are not counted.
    *
    * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {String} id - The Entity id
+   * @param {Array<EntityKey>} keys - the keys of the entities.
+   * @param {Object} options - the options object
+   * @returns {Promise<number>} - the number of entities marked as deleted.
    */
-  async findById(model: string, id: string): Promise<Array<GCPDataStoreEntity>> {
-    try {
-      const key = this.createEntityKeyWithId(model, id)
-
-      const entities = await this.datastore.get(key)
-      const foundEntity = entities[0]
-
-      if (foundEntity) {
-        const result = this.addIdentifierToEachEntity(entities)
-        return Promise.resolve(result)
-      }
+  private async softDeleteEntities(
+    model: string,
+    keys: Array<EntityKey>,
+    options: ConnectorOptions,
+  ): Promise<number> {
+    return this.writeInBatches(
+      keys,
+      (batch) =>
+        this.runInTransaction(options, async (transactionOptions) => {
+          const [entities] = await this.getClient(transactionOptions).get(batch)
+          const deletedAt = new Date()
+          const deleted = entities
+            .filter((entity: GCPDataStoreEntity) => !GoogleCloudDatastore.isDeleted(entity))
+            .map((entity: GCPDataStoreEntity) => {
+              const data = { ...entity, deletedAt }
+              return {
+                key: entity[this.datastore.KEY],
+                data,
+                excludeFromIndexes: this.getExcludedIndexes(model, data),
+              }
+            })
+          await this.saveEntities(deleted, 'update', transactionOptions)
+          return deleted.length
+        }),
+      options,
+    )
+  }
 
-      return Promise.resolve([])
+  /**
+   * Begin a new Datastore {@link Transaction}.
+   *
+   * LoopBack wraps the {@link Transaction} passed to the callback and hands it back to every
+   * connector method through `options.transaction`, so repository calls made with that option are
+   * queued on the transaction until {@link commit} is called.
+   *
+   * Datastore transactions are always serializable, so the isolation level requested by LoopBack
+   * is ignored.
+   *
+   * @param {String} _isolationLevel - the isolation level requested by LoopBack.
+   * @param {Function} callback - the callback function
+   */
+  async beginTransaction(_isolationLevel: string, callback: CallbackFunction): Promise<void> {
+    try {
+      const transaction = this.datastore.transaction()
+      await transaction.run()
+      callback(null, transaction)
     } catch (error) {
-      console.error(error)
+      callback(GoogleCloudDatastore.toLoopBackError(error))
     }
   }
 
   /**
-   * Get all entities for a given Kind.
+   * Commit a {@link Transaction}, applying every write queued on it atomically.
    *
-   * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
+   * @param {Transaction} transaction - the transaction created by {@link beginTransaction}.
+   * @param {Function} callback - the callback function
    */
-  private async getAllEntity(model) {
+  async commit(transaction: Transaction, callback: CallbackFunction): Promise<void> {
     try {
-      const query = this.datastore.createQuery(model)
-      const entities = await query.run()
-      const result = this.addIdentifierToEachEntity(entities[0])
-      return Promise.resolve(result)
+      await transaction.commit()
+      callback()
     } catch (error) {
-      console.error(error)
+      callback(GoogleCloudDatastore.toLoopBackError(error))
     }
   }
 
   /**
-   * Helper method that returns true if it's not an array.
+   * Roll back a {@link Transaction}, discarding every write queued on it.
    *
-   * @param valueToCheck - item to check.
-   * @returns {boolean} - returns true if not an array and false if it's an array.
+   * @param {Transaction} transaction - the transaction created by {@link beginTransaction}.
+   * @param {Function} callback - the callback function
    */
-  private static notAnArray(valueToCheck: any): boolean {
-    return !Array.isArray(valueToCheck)
+  async rollback(transaction: Transaction, callback: CallbackFunction): Promise<void> {
+    try {
+      await transaction.rollback()
+      callback()
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
   }
 
   /**
-   * Build a valid GQL query for the Google Datastore Node.js api.
+   * Write the index.yaml of the composite indexes declared by the models attached to the
+   * connector, see {@link generateIndexYaml}, to the file named by the indexFile setting. Datastore
+   * doesn't create indexes from its client library, deploy the file with:
    *
-   * https://googleapis.dev/nodejs/datastore/latest/index.html
+   * gcloud datastore indexes create index.yaml
    *
-   * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {Object} filters - the filter object containing filter conditions.
+   * When the clearOnAutomigrate setting is enabled, every entity of the migrated models is
+   * deleted first, which is meant for test setups.
+   *
+   * @param {Array<string>} [models] - names of the models to migrate, all attached models by
+   *  default. The index file always describes all attached models.
+   * @param {Function} callback - the callback function
    */
-  private buildQuery(model: string, filters): Query {
-    const { where, limit, skip, fields } = filters
-    let { order } = filters
-
-    let query = this.datastore.createQuery(model)
-
-    // if 'where' filter is present, extract all the different conditions
-    if (where) {
-      for (const key in where) {
-        if (where.hasOwnProperty(key)) {
-          const individualFilter: Filter = { [key]: where[key] }
-          query = GoogleCloudDatastore.addWhereFilterToQuery(query, individualFilter)
-        }
-      }
-    }
-
-    // determine if it's ASC or DESC and return the JS object matching that order
-    if (order) {
-      if (GoogleCloudDatastore.notAnArray(order)) {
-        order = [order]
-      }
-
-      // fast exit if no order
-      if (order.length < 1) {
-        return
-      }
-
-      for (const option of order) {
-        // example:
-        // order: 'price DESC',
-        const [property, orderOption] = option.split(' ')
-        if (orderOption) {
-          query = query.order(property, GoogleCloudDatastore.generateOrderingObject(orderOption))
-        } else {
-          console.error('No order provided for property. Please provide DESC or ASC sort order.')
+  async automigrate(models: string | Array<string> | undefined, callback: CallbackFunction) {
+    try {
+      if (this.settings.clearOnAutomigrate) {
+        const names = models === undefined ? Object.keys(this._models) : [].concat(models)
+        for (const model of names) {
+          await this.clearKind(model)
         }
       }
-    }
-
-    // how many entities should be returned
-    if (limit) {
-      query = query.limit(limit)
-    }
 
-    // how many entities to skip for pagination
-    if (skip) {
-      query = query.offset(skip)
-    }
-
-    // which fields on an entity should be returned
-    if (fields) {
-      const selects = fields.filter((field) => field === true)
-      query = query.select(selects)
+      await this.writeIndexFile()
+      callback()
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
     }
-
-    return query
   }
 
   /**
-   * Get {@link GCPDataStoreEntity} with query execution.
+   * Write the index.yaml of the composite indexes declared by the models attached to the
+   * connector, see {@link automigrate}. Entities are never deleted.
    *
-   * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {Object} filter - the filter for querying {@link GCPDataStoreEntity}.
+   * @param {Array<string>} [_models] - names of the models to update. The index file always
+   *  describes all attached models.
+   * @param {Function} callback - the callback function
    */
-  private async getResultsWithQuery(model, filter): Promise<Array<GCPDataStoreEntity>> {
-    const query = this.buildQuery(model, filter)
-    const entities = await query.run()
-    return this.addIdentifierToEachEntity(entities[0])
+  async autoupdate(_models: string | Array<string> | undefined, callback: CallbackFunction) {
+    try {
+      await this.writeIndexFile()
+      callback()
+    } catch (error) {
+      callback(GoogleCloudDatastore.toLoopBackError(error))
+    }
   }
 
   /**
-   * Internal method - Check if filter object has at least one valid property.
+   * Write the index.yaml of the models attached to the connector, to the file named by the
+   * indexFile setting, 'index.yaml' in the working directory by default.
    *
-   * @param {Object} filter - the filters object.
-   * @returns whether the filters object contains filters.
+   * @returns {Promise<string>} - the path of the written file.
    */
-  private static hasFilter({ where, order, limit, fields, skip }: Filter): boolean {
-    return !!(where || limit || fields || order || skip)
+  private async writeIndexFile(): Promise<string> {
+    const definitions = Object.keys(this._models).map((name) => ({
+      name,
+      properties: this._models[name].properties,
+      settings: this._models[name].settings,
+    }))
+    const indexFile = path.resolve(this.settings.indexFile || 'index.yaml')
+    await fs.writeFile(indexFile, GoogleCloudDatastore.generateIndexYaml(definitions))
+    return indexFile
   }
 
   /**
-   * Find matching {@link GCPDataStoreEntity} using a filter.
+   * Delete every {@link GCPDataStoreEntity} of a Kind, reading only their keys.
    *
    * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {Object} filter - the filters object narrowing down which data to fetch.
-   * @param {Object} _options - the options object
-   * @param {Function} [callback] - the callback function
+   * @returns {Promise<number>} - the number of deleted entities.
    */
-  async all(
-    model: string,
-    filter: Filter,
-    _options: CallOptions,
-    callback: CallbackFunction,
-  ): Promise<void> {
-    try {
-      const { where } = filter
+  private async clearKind(model: string): Promise<number> {
+    const query = this.datastore.createQuery(this.getNamespace(model), this.getKind(model))
+    const keys = await this.getKeysWithQueries([query])
+    return this.writeInBatches(keys, async (batch) => {
+      const deleteResult = await this.deleteKeys(batch)
+      return GoogleCloudDatastore.countMutations(deleteResult, batch.length)
+    })
+  }
 
-      let result
+  /**
+   * Generate a Datastore index.yaml from LoopBack model definitions. It can be used without a
+   * data source, e.g. in a build script:
+   *
+   * generateIndexYaml([Customer.definition, Order.definition])
+   *
+   * Composite indexes are declared in the indexes setting of a model, the way LoopBack declares
+   * indexes for other databases. Each index lists its properties with 1 for ascending and -1 for
+   * descending, and can be an ancestor index:
+   *
+   * @model({
+   *   settings: {
+   *     indexes: {
+   *       typeAge: { keys: { type: 1, age: -1 } },
+   *       orderLines: { keys: { product: 1 }, googleCloudDatastore: { ancestor: true } },
+   *     },
+   *   },
+   * })
+   *
+   * Indexes on a single property without ancestor are skipped, Datastore builds them itself.
+   *
+   * @param {Array<ModelDefinition>} definitions - the definitions of the models, with their name
+   *  and settings.
+   * @returns {String} - the content of the index.yaml file.
+   */
+  static generateIndexYaml(definitions: Array<ModelDefinition>): string {
+    const indexes = new Map<string, CompositeIndex>()
 
-      if (where && where.id) {
-        result = await this.findById(model, where.id)
-      } else if (GoogleCloudDatastore.hasFilter(filter)) {
-        result = await this.getResultsWithQuery(model, filter)
-      } else {
-        result = await this.getAllEntity(model)
+    for (const definition of definitions) {
+      for (const index of GoogleCloudDatastore.getCompositeIndexes(definition)) {
+        // the same index may be declared twice, e.g. by a model and its subclass
+        indexes.set(JSON.stringify(index), index)
       }
+    }
 
-      callback(null, result)
-    } catch (error) {
-      console.error(error)
-      callback(error)
+    if (indexes.size === 0) {
+      return 'indexes: []\n'
+    }
+
+    const lines = ['indexes:']
+    for (const { kind, ancestor, properties } of indexes.values()) {
+      lines.push('', `- kind: ${kind}`)
+      if (ancestor) {
+        lines.push('  ancestor: yes')
+      }
+      lines.push('  properties:')
+      for (const { name, direction } of properties) {
+        lines.push(`  - name: ${name}`)
+        if (direction === 'desc') {
+          lines.push('    direction: desc')
+        }
+      }
     }
+
+    return `${lines.join('\n')}\n`
   }
 
   /**
-   * Generate ordering object to use in the datastore query.
+   * Read the composite indexes declared by a model, see {@link generateIndexYaml}. The keys of
+   * an index may also be declared directly, e.g. { type: 1, age: -1 }, or as a comma separated
+   * list of ascending properties, e.g. { columns: 'type, age' }.
    *
-   * @param {String} orderOption <ASC|DESC> Order option
+   * @param {ModelDefinition} definition - the definition of the model.
+   * @returns {Array<CompositeIndex>}
    */
-  private static generateOrderingObject(orderOption): OrderQuery {
-    if (orderOption.toUpperCase() === 'DESC') return { descending: true }
-    return { ascending: true }
-  }
+  private static getCompositeIndexes(definition: ModelDefinition): Array<CompositeIndex> {
+    const declaredIndexes = definition.settings?.indexes || {}
 
-  /**
-   * Add new filter to a Query.
-   *
-   * {
-   *   where: {
-   *     size: {
-   *       eq: 'large' // addWhereFilterToQuery starts with this level
-   *     }
-   *   }
-   * }
-   *
-   * @param {Query} query - Datastore {@link Query}.
-   * @param {Object} filter - a filter condition. There can be nested conditions.
-   * @returns {Query} - if there are no comparison queries other than the straight-forward equals
-   *  comparison, then add the equals comparison to the root query and return the query. Else,
-   *  parse and add each individual comparison query and add them to the root query before
-   *  returning it.
-   */
-  private static addWhereFilterToQuery(query: Query, filter: Filter): Query {
-    const key = Object.keys(filter)[0]
-    const value = Object.values(filter)[0]
-
-    const isObject = typeof value === 'object'
-
-    if (isObject) {
-      return GoogleCloudDatastore.addComparisonFiltersToQuery(query, key, value)
-    }
-
-    return query.filter(key, '=', value)
-  }
-
-  /**
-   * Add comparison filters to a Query.
-   *
-   * @param {Query} query - Datastore {@link Query}.
-   * @param {String} key - property name being filtered.
-   * @param {Object} value - object with operator and comparison value.
-   */
-  private static addComparisonFiltersToQuery(query: Query, key: string, value: any): Query {
-    let resultingQuery = query
-
-    for (const operation in value) {
-      if (value.hasOwnProperty(operation)) {
-        const comparison = value[operation]
-        let operator = undefined
-        switch (operation) {
-          case 'lt':
-            operator = '<'
-            break
-          case 'lte':
-            operator = '<='
-            break
-          case 'gt':
-            operator = '>'
-            break
-          case 'gte':
-            operator = '>='
-            break
-          case 'ne':
-            operator = '!='
-            break
-          case 'in':
-            operator = 'in'
-            break
-          default:
-            break
+    return Object.keys(declaredIndexes)
+      .map((indexName) => {
+        const { keys, columns, googleCloudDatastore, ...directKeys } =
+          declaredIndexes[indexName] || {}
+        // index options such as { unique: true } are not keys
+        delete directKeys.options
+        const ancestor = googleCloudDatastore?.ancestor === true
+        const orderedKeys =
+          keys ??
+          (typeof columns === 'string'
+            ? Object.fromEntries(columns.split(',').map((column) => [column.trim(), 1]))
+            : directKeys)
+
+        const properties = Object.keys(orderedKeys).map((name) => {
+          const direction = String(orderedKeys[name]).toLowerCase()
+          return {
+            name: GoogleCloudDatastore.toColumnPath(definition.properties, name),
+            direction: direction === '-1' || direction === 'desc' ? 'desc' : 'asc',
+          } as IndexProperty
+        })
+
+        // queries of models with soft deletes also compare deletedAt, see excludesDeleted
+        if (
+          definition.settings?.googleCloudDatastore?.softDelete &&
+          !properties.some(({ name }) => name === 'deletedAt')
+        ) {
+          properties.unshift({ name: 'deletedAt', direction: 'asc' })
         }
-        resultingQuery = resultingQuery.filter(key, operator, comparison)
-      }
-    }
 
-    return resultingQuery
+        const kind = definition.settings?.googleCloudDatastore?.kind || definition.name
+        return { kind, ancestor, properties }
+      })
+      .filter(
+        ({ ancestor, properties }) => properties.length > 1 || (ancestor && properties.length),
+      )
   }
 
   /**
-   * Count the number of {@link GCPDataStoreEntity} belonging to a given {@link EntityKey}. Do not
-   * use this method if you can help it because it is incredibly taxing. Fetching all the records in
-   * the collection just to determine the count. You are better off creating a tracker under a
-   * {@link EntityKey} e.g. EntityCounts. Then each Entity in that collection is responsible for
-   * tracking the count of records in another collection.
+   * List the Kinds of a namespace with Datastore's __kind__ metadata query, so models can be
+   * generated for an existing database with lb4 discover.
    *
-   * Note: LoopBack repository's "exist" method also uses this "count" method to determine whether
-   * or not a {@link GCPDataStoreEntity} exists. If you make a call like:
-   * this.userRepository.exists('394628734637'), the the id will be transformed into a where filter
-   * and passed to this method. That's why we check for (where && where.id).
-   *
-   * When using LoopBack repository's "exist" method, the length passed to the callback will
-   * be transformed to a boolean and when the "count" method is used, it will be transformed into
-   * a {@link LoopBackCountResult} object.
-   *
-   * Fixed bug in
-   * [inspired source](https://github.com/henriquecarv/loopback-connector-google-cloud-datastore)
-   * where the null results weren't being filtered out, resulting in an inaccurate count and
-   * a 100% false positive rate when using LoopBack 4's exist method.
-   *
-   * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {Object} where - a filter containing "where" conditions
-   *  https://loopback.io/doc/en/lb4/Where-filter.html
-   * @param {Object} options - the options object
-   * @param {Function} callback - the callback function
+   * @param {Object} options - the namespace is read from options.owner or options.schema, the
+   *  names LoopBack uses for database schemas, and defaults to the namespace of the data source.
+   *  Kinds of every namespace are listed when options.all is true.
+   * @param {Function} callback - called with the Kinds, e.g. [{ type: 'table', name: 'Task' }]
    */
-  async count(
-    model: string,
-    where: Filter,
-    options: CreateReadStreamOptions,
-    callback,
+  async discoverModelDefinitions(
+    options: DiscoveryOptions,
+    callback: CallbackFunction,
   ): Promise<void> {
     try {
-      // if there is a specified filter, or when using LoopBack's exist method.
-      if (where && where.id) {
-        const key = this.createEntityKeyWithId(model, where.id)
-        const result = await this.datastore.get(key, options)
-        callback(null, result.filter((entity) => entity != null).length)
-        return
+      const namespaces = options?.all
+        ? await this.discoverNamespaces()
+        : [this.getDiscoveryNamespace(options)]
+
+      const models: Array<DiscoveredModel> = []
+      for (const namespace of namespaces) {
+        const query = this.datastore.createQuery(namespace, '__kind__').select('__key__')
+        const [kinds] = await query.run()
+
+        kinds
+          .map((kind: GCPDataStoreEntity) => kind[this.datastore.KEY].name)
+          // statistics kinds such as __Stat_Kind__ are not application data
+          .filter((name: string) => !name.startsWith('__'))
+          .forEach((name: string) => models.push({ type: 'table', name, owner: namespace }))
       }
 
-      // get all entities and then retrieve basic array length
-      const result = await this.getAllEntity(model)
-      callback(null, result.length)
+      callback(null, models)
     } catch (error) {
-      console.error(error)
-      callback(error)
+      callback(GoogleCloudDatastore.toLoopBackError(error))
     }
   }
 
   /**
-   * Update matching {@link GCPDataStoreEntity} with new values.
+   * Build the LoopBack model definition of a Kind.
    *
-   * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {Object} filter The filter object
-   * @param {Object} data The property/value pairs to be updated
-   * @param {Object} _options - configure network options.
-   * @param {Function} callback The callback function
+   * Properties are listed with Datastore's __property__ metadata query, which only knows about
+   * indexed properties and reports dates as integers, so a sample of entities is read as well:
+   * their values give the type of the properties they hold, including unindexed ones. The key of
+   * the sampled entities tells whether the Kind uses key names or numeric ids and which Kind its
+   * parent is, see {@link createParentKey}.
+   *
+   * @param {String} kind - name of the Kind.
+   * @param {Object} options - the namespace, see {@link discoverModelDefinitions}, and the
+   *  number of entities to sample as options.sampleSize, 20 by default.
+   * @param {Function} callback - called with an array holding the model definition.
    */
-  async update(
-    model: string,
-    filter: Filter,
-    data,
-    _options: CallOptions,
+  async discoverSchemas(
+    kind: string,
+    options: DiscoveryOptions,
     callback: CallbackFunction,
-  ) {
+  ): Promise<void> {
     try {
-      const { where } = filter
+      const namespace = this.getDiscoveryNamespace(options)
+      const types = new Map<string, any>()
 
-      // Handle ".updateById" from LoopBack
-      if (filter && filter.id) {
-        callback(null, await this.updateEntity(model, filter.id, data))
-        return
+      const propertyQuery = this.datastore
+        .createQuery(namespace, '__property__')
+        .hasAncestor(this.datastore.key({ namespace, path: ['__kind__', kind] }))
+      const [propertyEntities] = await propertyQuery.run()
+      for (const propertyEntity of propertyEntities) {
+        // properties of embedded entities are listed by their path, e.g. address.city
+        const [name, ...nestedPath] = propertyEntity[this.datastore.KEY].name.split('.')
+        const type = nestedPath.length
+          ? 'object'
+          : GoogleCloudDatastore.getRepresentationType(propertyEntity.property_representation)
+        types.set(name, GoogleCloudDatastore.mergeTypes(types.get(name), type))
       }
-      // Handle update if just one entity. ".update" method in LoopBack's crud repository.
-      else if (where && where.id) {
-        callback(null, await this.updateEntity(model, where.id, data))
-        return
+
+      const sampleQuery = this.datastore
+        .createQuery(namespace, kind)
+        .limit(options?.sampleSize ?? 20)
+      const [samples] = await sampleQuery.run()
+      const sampledTypes = new Map<string, any>()
+      for (const sample of samples) {
+        for (const name of Object.keys(sample)) {
+          const type = GoogleCloudDatastore.getValueType(sample[name])
+          sampledTypes.set(name, GoogleCloudDatastore.mergeTypes(sampledTypes.get(name), type))
+        }
       }
+      // sampled values are more precise than the metadata, e.g. they tell dates from integers
+      sampledTypes.forEach((type, name) => types.set(name, type ?? types.get(name)))
 
-      // Handle multiple entity updates
-      // Get existing entities that will need to be updated based on query
-      const entities = await this.getResultsWithQuery(model, filter)
-      // Assign new data to existing entities
-      const newEntities = entities.map((entity: GCPDataStoreEntity) => {
-        return Object.assign(entity, data)
+      const sampleKey: EntityKey | undefined = samples[0]?.[this.datastore.KEY]
+      const properties: PropertyDefinitions = {
+        id:
+          sampleKey?.name !== undefined
+            ? { type: 'string', id: true }
+            : { type: 'number', id: true, generated: true },
+      }
+      const settings: ModelSettings = {}
+
+      if (sampleKey?.name !== undefined) {
+        settings.keyNames = true
+      }
+      if (namespace) {
+        settings.namespace = namespace
+      }
+      if (sampleKey?.parent) {
+        const parentKind = sampleKey.parent.kind
+        const property = `${parentKind.charAt(0).toLowerCase()}${parentKind.slice(1)}Id`
+        settings.parent = { model: parentKind, property }
+        properties[property] = {
+          type: sampleKey.parent.name !== undefined ? 'string' : 'number',
+          required: false,
+        }
+      }
+
+      types.forEach((type, name) => {
+        properties[name] = { type: type ?? 'any', required: false }
       })
-      // Update those entities
-      const updateResponse = (await this.datastore.update(newEntities)) as UpdateResponse
-      const commitResult = updateResponse[0]
-      const updatedRows = commitResult.mutationResults.length
-      callback(null, { count: updatedRows })
+
+      callback(null, [
+        {
+          name: kind,
+          options: { idInjection: false, googleCloudDatastore: settings },
+          properties,
+        },
+      ])
     } catch (error) {
-      console.error(error)
-      callback(error)
+      callback(GoogleCloudDatastore.toLoopBackError(error))
     }
   }
 
   /**
-   * Replace matching Entity
+   * Get the namespace to discover, see {@link discoverModelDefinitions}.
    *
-   * @param {String} model The model name
-   * @param {String} id The entity id
-   * @param {Object} data The property/value pairs to be replaced
-   * @param {Object} _options - configure network options.
-   * @param {Function} callback The callback function
+   * @param {Object} [options] - the discovery options.
+   * @returns {String | undefined}
    */
-  async replaceById(model, id, data, _options, callback) {
-    try {
-      const result = await this.updateEntity(model, id, data)
-      callback(null, result)
-    } catch (error) {
-      console.error(error)
-      callback(error)
-    }
+  private getDiscoveryNamespace(options?: DiscoveryOptions): string | undefined {
+    return options?.namespace || options?.owner || options?.schema || this.settings.namespace
   }
 
-  private async updateEntity(model: string, id: string, data: object): Promise<Count> {
-    const key = this.createEntityKeyWithId(model, id)
-    // @ts-ignore
-    delete data.id
-    const updateResponse = (await this.datastore.update({
-      key,
-      data,
-    })) as UpdateResponse
-    const updatedRows = updateResponse[0].mutationResults.length
-    console.log('updated rows:', updatedRows)
-    return { count: updatedRows }
+  /**
+   * List the namespaces of the database with Datastore's __namespace__ metadata query.
+   *
+   * @returns {Promise<Array<string | undefined>>} - undefined stands for the default namespace.
+   */
+  private async discoverNamespaces(): Promise<Array<string | undefined>> {
+    const query = this.datastore.createQuery('__namespace__').select('__key__')
+    const [namespaces] = await query.run()
+    // the default namespace has the numeric id 1 instead of a name
+    return namespaces.map((namespace: GCPDataStoreEntity) => namespace[this.datastore.KEY].name)
   }
 
   /**
-   * Destroy all {@link GCPDataStoreEntity} for a given Kind.
+   * Get the LoopBack type of the representations a property has in the __property__ metadata.
    *
-   * This method is also used by LoopBack repository's deleteById method, hence the check for
-   * "where" and "where.id".
+   * @param {Array<string>} [representations] - e.g. ['INT64', 'NULL'].
+   * @returns {* | undefined} - undefined when the property only holds nulls.
+   */
+  private static getRepresentationType(representations: Array<string> = []): any {
+    const typesByRepresentation = {
+      INT64: 'number',
+      DOUBLE: 'number',
+      BOOLEAN: 'boolean',
+      STRING: 'string',
+      POINT: 'geopoint',
+      REFERENCE: 'object',
+      USER: 'object',
+    }
+    return representations
+      .filter((representation) => representation !== 'NULL')
+      .reduce(
+        (type, representation) =>
+          GoogleCloudDatastore.mergeTypes(type, typesByRepresentation[representation] ?? 'any'),
+        undefined,
+      )
+  }
+
+  /**
+   * Get the LoopBack type of a value read from Datastore.
    *
-   * @param {String} model - name of the model defined in LoopBack's model annotation.
-   *  For Example: @model({ name: Task.name })
-   * @param {Object} where - the filter object
-   * @param {Object} options - the options object
-   * @param {Function} [callback] - the callback function
+   * @param {*} value - the value.
+   * @returns {* | undefined} - undefined for nulls, whose type is unknown.
    */
-  async destroyAll(model: string, where: Filter, options: CallOptions, callback: CallbackFunction) {
-    try {
-      if (where && where.id) {
-        const key = this.createEntityKeyWithId(model, where.id)
-        const result = (await this.datastore.delete(key, options)) as CommitResponse
-        const commitResult = result[0]
-        const deletedRows = commitResult.mutationResults.length
-        // LoopBack expects result to be an object with a count property
-        callback(null, { count: deletedRows })
-      } else {
-        const result = await this.getAllEntity(model)
-        const keys = result.map((entity: GCPDataStoreEntity) => {
-          return this.createEntityKeyWithId(model, entity.id)
-        })
-        const deleteResult = (await this.datastore.delete(keys)) as DeleteResponse
-        const commitResult = deleteResult[0]
-        const deletedRows = commitResult.mutationResults.length
-        // LoopBack expects result to be an object with a count property
-        callback(null, { count: deletedRows })
-      }
-    } catch (error) {
-      console.error(error)
-      callback(error)
+  private static getValueType(value: any): any {
+    if (value === null || value === undefined) {
+      return undefined
+    }
+    if (Array.isArray(value)) {
+      const itemType = value.reduce(
+        (type, item) =>
+          GoogleCloudDatastore.mergeTypes(type, GoogleCloudDatastore.getValueType(item)),
+        undefined,
+      )
+      return [itemType ?? 'any']
     }
+    if (value instanceof Date) {
+      return 'date'
+    }
+    if (Buffer.isBuffer(value)) {
+      return 'buffer'
+    }
+    if (typeof value === 'object') {
+      return value.latitude !== undefined && value.longitude !== undefined ? 'geopoint' : 'object'
+    }
+    return typeof value
+  }
+
+  /**
+   * Merge the types found for the same property, falling back to 'any' when they disagree.
+   *
+   * @param {*} a - a type, or undefined when unknown.
+   * @param {*} b - another type, or undefined when unknown.
+   * @returns {* | undefined}
+   */
+  private static mergeTypes(a: any, b: any): any {
+    if (a === undefined) return b
+    if (b === undefined) return a
+    return JSON.stringify(a) === JSON.stringify(b) ? a : 'any'
   }
 }
 
 // // Required by LoopBack to be in this commonjs format
 exports.initialize = initializeDataSource
 exports.RealtimeDatabase = GoogleCloudDatastore
+exports.generateIndexYaml = GoogleCloudDatastore.generateIndexYaml
+exports.DatastoreError = DatastoreError